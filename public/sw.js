@@ -0,0 +1,87 @@
+/**
+ * Service worker keeping the app, its configurations (avalanches.json,
+ * frame manifests) and the map tiles available offline after the first view
+ * Requests go to the network first, the stored copy answers when it fails.
+ * Frame rasters are not stored here, their decoded grids are cached in
+ * IndexedDB (see src/core/DataCache.ts).
+ */
+
+// Cache names start with the prefix cleared by DataCache.clear, bump the
+// version when the caching changes
+const CACHE_PREFIX = 'avalanche-viewer-';
+const APP_CACHE = `${CACHE_PREFIX}app-v1`;
+const TILE_CACHE = `${CACHE_PREFIX}tiles-v1`;
+
+// Oldest tiles (and other cross-origin files) are dropped beyond this count
+const MAX_TILES = 3000;
+
+// Trim the tile cache after this many writes
+const TRIM_INTERVAL = 100;
+
+// Raster files of the data folder, cached decoded by the app instead
+const RASTER_FILE = /\.(tiff?|asc|xyz|txt|zip)$/i;
+
+let tileWrites = 0;
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((names) => Promise.all(
+        names
+          .filter((name) => name.startsWith(CACHE_PREFIX) && name !== APP_CACHE && name !== TILE_CACHE)
+          .map((name) => caches.delete(name))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  // Partial reads (e.g. Cloud Optimized GeoTIFFs) are not stored
+  if (request.method !== 'GET' || request.headers.has('range')) return;
+
+  const url = new URL(request.url);
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return;
+
+  if (url.origin === self.location.origin) {
+    if (RASTER_FILE.test(url.pathname)) return;
+    event.respondWith(networkFirst(request, APP_CACHE));
+  } else {
+    event.respondWith(networkFirst(request, TILE_CACHE));
+  }
+});
+
+/**
+ * Fetch from the network and store the response, fall back to the stored
+ * response when the network fails
+ */
+async function networkFirst(request, cacheName) {
+  try {
+    const response = await fetch(request);
+    // Opaque and error responses are not stored
+    if (response.ok) {
+      const cache = await caches.open(cacheName);
+      await cache.put(request, response.clone());
+      if (cacheName === TILE_CACHE && ++tileWrites % TRIM_INTERVAL === 0) {
+        await trimCache(cache, MAX_TILES);
+      }
+    }
+    return response;
+  } catch (error) {
+    const cached = await caches.match(request);
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+/**
+ * Delete the oldest entries of a cache beyond the given count
+ */
+async function trimCache(cache, maxEntries) {
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - maxEntries)).map((key) => cache.delete(key)));
+}
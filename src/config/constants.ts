@@ -1,4 +1,10 @@
-import type { ColorStop, TerrainConfig } from './types';
+import type {
+  ColorStop,
+  HazardClass,
+  TerrainAnalysisConfig,
+  TerrainClass,
+  TerrainConfig,
+} from './types';
 
 /**
  * Color stops for flow height visualization (matching prototype colors)
@@ -13,14 +19,235 @@ export const COLOR_STOPS: ColorStop[] = [
   { value: 2.0, color: [200, 50, 50, 255] },     // Dark red - high flow
 ];
 
+/**
+ * Color stops for the maximum flow height envelope (yellow to purple)
+ */
+export const ENVELOPE_COLOR_STOPS: ColorStop[] = [
+  { value: 0.01, color: [255, 255, 178, 220] },  // Pale yellow
+  { value: 0.2, color: [254, 217, 118, 230] },   // Yellow
+  { value: 0.5, color: [254, 178, 76, 240] },    // Light orange
+  { value: 1.0, color: [253, 141, 60, 245] },    // Orange
+  { value: 1.5, color: [240, 59, 32, 250] },     // Red
+  { value: 2.5, color: [189, 0, 38, 255] },      // Dark red
+  { value: 4.0, color: [110, 1, 107, 255] },     // Purple - deepest flow
+];
+
+/**
+ * Color stops for arrival time in seconds (sequential, early = dark)
+ */
+export const ARRIVAL_COLOR_STOPS: ColorStop[] = [
+  { value: 0, color: [68, 1, 84, 230] },       // Dark purple
+  { value: 10, color: [65, 68, 135, 235] },    // Indigo
+  { value: 20, color: [42, 120, 142, 240] },   // Teal blue
+  { value: 30, color: [34, 168, 132, 245] },   // Teal green
+  { value: 45, color: [122, 209, 81, 250] },   // Green
+  { value: 60, color: [189, 223, 38, 255] },   // Yellow green
+  { value: 90, color: [253, 231, 37, 255] },   // Yellow
+];
+
+/**
+ * Diverging color stops for flow height differences in meters
+ * (blue = lower than the reference simulation, red = higher)
+ */
+export const DIFFERENCE_COLOR_STOPS: ColorStop[] = [
+  { value: -2.0, color: [33, 102, 172, 255] },   // Dark blue
+  { value: -1.0, color: [103, 169, 207, 245] },  // Blue
+  { value: -0.2, color: [209, 229, 240, 230] },  // Pale blue
+  { value: 0, color: [247, 247, 247, 220] },     // Neutral
+  { value: 0.2, color: [253, 219, 199, 230] },   // Pale red
+  { value: 1.0, color: [239, 138, 98, 245] },    // Red
+  { value: 2.0, color: [178, 24, 43, 255] },     // Dark red
+];
+
+/**
+ * Color stops for the probability of exceedance (0-1) across ensemble members
+ */
+export const PROBABILITY_COLOR_STOPS: ColorStop[] = [
+  { value: 0.01, color: [255, 255, 204, 200] },  // Pale yellow
+  { value: 0.25, color: [161, 218, 180, 220] },  // Light green
+  { value: 0.5, color: [65, 182, 196, 235] },    // Teal
+  { value: 0.75, color: [44, 127, 184, 245] },   // Blue
+  { value: 1.0, color: [37, 52, 148, 255] },     // Dark blue - all members
+];
+
+/**
+ * Default exceedance thresholds per result variable (variable unit)
+ */
+export const DEFAULT_EXCEEDANCE_THRESHOLDS: Record<string, number> = {
+  flowHeight: 0.5,   // m
+  pressure: 30,      // kPa
+};
+
+/**
+ * Arrival time map settings
+ */
+export const DEFAULT_ARRIVAL = {
+  threshold: 0.1,         // m flow height counting as reached
+  contourInterval: 5      // s between labeled contours
+};
+
+/**
+ * Contour line and label styling
+ */
+export const CONTOUR_STYLE = {
+  lineColor: [40, 40, 40, 0.9] as number[],
+  lineWidth: 1,
+  labelColor: [20, 20, 20, 1] as number[],
+  labelHaloColor: [255, 255, 255, 0.9] as number[],
+  labelSize: 9,
+  heightOffset: 2         // m above ground, on top of the draped mesh
+};
+
+/**
+ * Profile path styling and sampling
+ */
+export const PROFILE_STYLE = {
+  lineColor: [255, 140, 0, 1] as number[],
+  lineWidth: 3,
+  sampleCount: 200
+};
+
+/**
+ * Minimum flow height (m) counting a cell as part of the flow front
+ */
+export const RUNOUT_FLOW_THRESHOLD = 0.05;
+
+/**
+ * Relative volume change tolerances for the volume balance check
+ */
+export const VOLUME_BALANCE_TOLERANCE = {
+  step: 0.1,      // change between consecutive frames
+  release: 0.25   // excess over the release volume
+};
+
+/**
+ * Identifier of the built-in flow height result variable
+ */
+export const FLOW_HEIGHT_VARIABLE_ID = 'flowHeight';
+
+/**
+ * Default color stops for additional result variables, keyed by variable id
+ */
+export const VARIABLE_COLOR_STOPS: Record<string, ColorStop[]> = {
+  // Flow velocity in m/s
+  velocity: [
+    { value: 0.1, color: [74, 144, 194, 220] },
+    { value: 2, color: [139, 196, 234, 230] },
+    { value: 5, color: [180, 220, 180, 240] },
+    { value: 10, color: [240, 230, 140, 245] },
+    { value: 15, color: [255, 165, 80, 250] },
+    { value: 20, color: [255, 107, 107, 255] },
+    { value: 30, color: [200, 50, 50, 255] },
+  ],
+  // Impact pressure in kPa
+  pressure: [
+    { value: 0.1, color: [74, 144, 194, 220] },
+    { value: 1, color: [139, 196, 234, 230] },
+    { value: 3, color: [180, 220, 180, 240] },
+    { value: 10, color: [240, 230, 140, 245] },
+    { value: 30, color: [255, 165, 80, 250] },
+    { value: 100, color: [255, 107, 107, 255] },
+    { value: 300, color: [200, 50, 50, 255] },
+  ],
+  // Momentum (flow height x velocity) in m²/s
+  momentum: [
+    { value: 0.1, color: [74, 144, 194, 220] },
+    { value: 1, color: [139, 196, 234, 230] },
+    { value: 3, color: [180, 220, 180, 240] },
+    { value: 8, color: [240, 230, 140, 245] },
+    { value: 15, color: [255, 165, 80, 250] },
+    { value: 25, color: [255, 107, 107, 255] },
+    { value: 40, color: [200, 50, 50, 255] },
+  ],
+};
+
+/**
+ * Default hazard classes following the Swiss impact pressure thresholds (kPa)
+ */
+export const DEFAULT_HAZARD_CLASSES: HazardClass[] = [
+  { name: 'Yellow', min: 0, color: [255, 220, 0, 230] },   // < 3 kPa
+  { name: 'Blue', min: 3, color: [30, 100, 220, 240] },    // 3-30 kPa
+  { name: 'Red', min: 30, color: [220, 30, 30, 250] },     // >= 30 kPa
+];
+
 /**
  * Default terrain visualization configuration
  */
 export const DEFAULT_TERRAIN_CONFIG: TerrainConfig = {
   exaggerationFactor: 20,
-  gridResolution: 100
+  maxGridCells: 10000
+};
+
+/**
+ * Default terrain analysis configuration (slope, aspect and curvature)
+ */
+export const DEFAULT_TERRAIN_ANALYSIS_CONFIG: TerrainAnalysisConfig = {
+  zFactor: 1,
+  smooth: true,
+  minSlope: 22
 };
 
+/**
+ * Slope angle classes (°) relevant for avalanche release
+ */
+export const SLOPE_CLASSES: TerrainClass[] = [
+  { name: 'Moderate', min: 22, max: 27, color: [242, 229, 10, 255] },  // yellow
+  { name: 'Steep', min: 27, max: 32, color: [244, 111, 36, 255] },     // orange
+  { name: 'Very steep', min: 32, max: 37, color: [255, 5, 91, 255] },  // red
+  { name: 'Extreme', min: 37, max: 90, color: [200, 137, 187, 255] },  // purple
+];
+
+/**
+ * Aspect classes by compass sector (° clockwise from north)
+ */
+export const ASPECT_CLASSES: TerrainClass[] = [
+  { name: 'N', min: 337.5, max: 22.5, color: [30, 80, 200, 255] },
+  { name: 'NE', min: 22.5, max: 67.5, color: [0, 170, 210, 255] },
+  { name: 'E', min: 67.5, max: 112.5, color: [60, 180, 75, 255] },
+  { name: 'SE', min: 112.5, max: 157.5, color: [210, 210, 0, 255] },
+  { name: 'S', min: 157.5, max: 202.5, color: [230, 50, 30, 255] },
+  { name: 'SW', min: 202.5, max: 247.5, color: [245, 140, 0, 255] },
+  { name: 'W', min: 247.5, max: 292.5, color: [150, 60, 180, 255] },
+  { name: 'NW', min: 292.5, max: 337.5, color: [120, 120, 230, 255] },
+];
+
+/**
+ * Standard curvature classes (1/100 m), positive values are convex
+ */
+export const CURVATURE_CLASSES: TerrainClass[] = [
+  { name: 'Strongly concave', min: -100, max: -2, color: [33, 102, 172, 255] },
+  { name: 'Concave', min: -2, max: -0.5, color: [146, 197, 222, 255] },
+  { name: 'Convex', min: 0.5, max: 2, color: [244, 165, 130, 255] },
+  { name: 'Strongly convex', min: 2, max: 100, color: [178, 24, 43, 255] },
+];
+
+/**
+ * Number of frames fetched and decoded in parallel while loading a simulation
+ */
+export const DEFAULT_LOAD_CONCURRENCY = 6;
+
+/**
+ * Extent edges closer than this fraction of a cell are considered identical
+ */
+export const EXTENT_TOLERANCE = 0.01;
+
+/**
+ * Frames of a simulation that must be ready before playback can start,
+ * the remaining frames load in the background
+ */
+export const DEFAULT_START_FRAMES = 5;
+
+/**
+ * Size budget of the persistent frame and elevation cache (MB)
+ */
+export const DEFAULT_CACHE_BUDGET_MB = 500;
+
+/**
+ * Number of workers decoding frames and building meshes
+ * (one core is left to the main thread)
+ */
+export const WORKER_COUNT = Math.max(1, Math.min(4, (globalThis.navigator?.hardwareConcurrency ?? 2) - 1));
+
 /**
  * Default animation settings
  */
@@ -41,11 +268,6 @@ export const PLAYBACK_SPEEDS: Record<string, number> = {
   '0.5x': 2000
 };
 
-/**
- * Grid resolution options
- */
-export const GRID_RESOLUTIONS = [50, 100, 150, 200];
-
 /**
  * Flatten pass options
  */
@@ -63,7 +285,36 @@ export const ELEVATION_SERVICE_URL =
   'https://elevation3d.arcgis.com/arcgis/rest/services/WorldElevation3D/Terrain3D/ImageServer';
 
 /**
- * Spatial reference WKID for Web Mercator
+ * Retries of failed ground elevation queries, the delay (ms) doubles after
+ * each attempt
+ */
+export const ELEVATION_RETRY = {
+  attempts: 3,
+  baseDelay: 500
+};
+
+/**
+ * Calcite components asset path, set VITE_CALCITE_ASSET_PATH to a local copy
+ * of @esri/calcite-components/dist/calcite/assets on restricted networks
+ */
+export const CALCITE_ASSET_PATH =
+  import.meta.env.VITE_CALCITE_ASSET_PATH ?? 'https://js.arcgis.com/calcite-components/3.0.3/assets';
+
+/**
+ * ArcGIS assets path (null keeps the CDN), set VITE_ARCGIS_ASSET_PATH to a
+ * local copy of @arcgis/core/assets on restricted networks
+ */
+export const ARCGIS_ASSET_PATH = import.meta.env.VITE_ARCGIS_ASSET_PATH ?? null;
+
+/**
+ * No-data value assumed for ASCII grids without a NODATA_value header and
+ * for XYZ exports
+ */
+export const DEFAULT_NODATA_VALUE = -9999;
+
+/**
+ * Spatial reference WKID for Web Mercator (also the scene's spatial reference,
+ * rasters in other projections are reprojected to it for display)
  */
 export const WEB_MERCATOR_WKID = 3857;
 
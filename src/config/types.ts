@@ -20,7 +20,32 @@ export interface ColorStop {
  */
 export interface TerrainConfig {
   exaggerationFactor: number;
-  gridResolution: number;
+  maxGridCells: number;   // Budget for the display grid, rasters above it are downsampled
+}
+
+/**
+ * Terrain analysis products derived from the elevation raster
+ */
+export type TerrainProduct = 'slope' | 'aspect' | 'curvature';
+
+/**
+ * Settings shared by all terrain analysis products
+ */
+export interface TerrainAnalysisConfig {
+  zFactor: number;        // Ground units per elevation unit
+  smooth: boolean;        // Smooth the elevations before deriving, reduces DEM noise
+  minSlope: number;       // Aspect and curvature are shown on steeper slopes only (°)
+}
+
+/**
+ * Class of a terrain analysis product covering values from min to max
+ * (wrapping around for min > max, e.g. north aspects)
+ */
+export interface TerrainClass {
+  name: string;
+  min: number;
+  max: number;
+  color: RGBAColor;
 }
 
 /**
@@ -32,7 +57,73 @@ export interface GeoJSONPolygon {
 }
 
 /**
- * Avalanche simulation configuration from JSON
+ * Additional RAMMS result variable exported per time step
+ * (e.g. velocity, pressure, momentum). Flow height is always
+ * available through the avalanche's own prefix/suffix.
+ */
+export interface ResultVariableConfig {
+  id: string;
+  name: string;
+  prefix: string;
+  suffix: string;
+  unit: string;
+  colorStops?: ColorStop[];
+  frames?: FrameEntry[];  // Explicit files, replace prefix/suffix
+}
+
+/**
+ * Time step of an explicit frame list and its file (relative to the folder)
+ */
+export interface FrameEntry {
+  time: number;
+  file: string;
+}
+
+/**
+ * Named class of a classified rendering, applied to values >= min
+ */
+export interface HazardClass {
+  name: string;
+  min: number;
+  color: RGBAColor;
+}
+
+/**
+ * Hazard-zone classification of a result variable (e.g. Swiss pressure zones)
+ */
+export interface HazardZoneConfig {
+  variable: string;
+  classes?: HazardClass[];
+  returnPeriod?: number;
+}
+
+/**
+ * Mesh coloring mode: continuous gradient or classified hazard zones
+ */
+export type ColorMode = 'continuous' | 'classified';
+
+/**
+ * Static products shown instead of the animated frames
+ */
+export type SimulationProduct = 'envelope' | 'arrivalTime';
+
+/**
+ * Difference shown in compare mode: per frame or of the max envelopes
+ */
+export type ComparisonMode = 'frame' | 'envelope';
+
+/**
+ * File format of the exported time steps
+ * - geotiff: GeoTIFF, spatial reference from the GeoKeys
+ * - ascii-grid: ESRI ASCII grid (.asc)
+ * - xyz: whitespace-separated "x y value" lines of cell centers
+ */
+export type RasterFormat = 'geotiff' | 'ascii-grid' | 'xyz';
+
+/**
+ * Avalanche simulation configuration with resolved time steps
+ * With an explicit frame list (frames or frameManifest) the time steps are
+ * taken from the list, timeRange and timeInterval are derived from it.
  */
 export interface AvalancheConfig {
   id: string;
@@ -45,8 +136,92 @@ export interface AvalancheConfig {
   description?: string;
   demSource?: string;
   demGridResolution?: number;
+  dem?: string;           // GeoTIFF DEM in the folder used as terrain instead of the elevation service
   releaseArea?: GeoJSONPolygon;
   releaseDepth?: number;
+  variables?: ResultVariableConfig[];
+  hazardZones?: HazardZoneConfig;
+  wkid?: number;          // Spatial reference of rasters without GeoKeys
+  format?: RasterFormat;  // Defaults to geotiff
+  files?: Record<string, File>;  // Local files by time step file name, replace the data folder
+  frames?: FrameEntry[];  // Explicit frame list, replaces prefix/suffix/timeRange
+  frameManifest?: string; // JSON file in the folder with the frame list
+}
+
+/**
+ * Avalanche configuration as given in JSON or a package manifest
+ * timeRange and timeInterval may be omitted with an explicit frame list,
+ * see resolveFrameList.
+ */
+export type AvalancheConfigInput = Omit<AvalancheConfig, 'timeRange' | 'timeInterval'> &
+  Partial<Pick<AvalancheConfig, 'timeRange' | 'timeInterval'>>;
+
+/**
+ * Manifest (manifest.json) of a zipped simulation package
+ * Omitted prefix, suffix and time steps are inferred from the frame file
+ * names; the release area is read from a GeoJSON file in the package.
+ */
+export interface SimulationPackageManifest {
+  name: string;
+  description?: string;
+  prefix?: string;
+  suffix?: string;
+  timeInterval?: number;
+  timeRange?: [number, number];
+  releaseDepth?: number;
+  releaseArea?: string;   // GeoJSON file name, defaults to the first .geojson file
+  demSource?: string;
+  demGridResolution?: number;
+  dem?: string;           // GeoTIFF DEM file in the package
+  format?: RasterFormat;
+  wkid?: number;
+  variables?: ResultVariableConfig[];
+  hazardZones?: HazardZoneConfig;
+  frames?: FrameEntry[];
+}
+
+/**
+ * Group of simulation runs of the same path (e.g. different release depths
+ * or friction sets) evaluated together as an ensemble
+ */
+export interface EnsembleConfig {
+  id: string;
+  name: string;
+  description?: string;
+  members: string[];      // Avalanche ids
+  variable?: string;      // Default result variable for exceedance
+  threshold?: number;     // Default exceedance threshold (variable unit)
+}
+
+/**
+ * Source of the terrain (ground elevations, scene ground and slope layers)
+ * - online: an elevation image service (World Elevation by default)
+ * - local: a DEM GeoTIFF, for restricted networks (a Cloud Optimized GeoTIFF
+ *   also provides the slope and snow cover layers)
+ * - flat: constant elevation, e.g. for tests
+ */
+export type TerrainProviderType = 'online' | 'local' | 'flat';
+
+/**
+ * Terrain provider selection in avalanches.json
+ */
+export interface TerrainProviderConfig {
+  type: TerrainProviderType;
+  url?: string;           // online: elevation image service
+  dem?: string;           // local: DEM GeoTIFF, relative to the data folder
+  wkid?: number;          // local: spatial reference of a DEM without GeoKeys
+  elevation?: number;     // flat: ground elevation (m)
+  fallbackElevation?: number; // Flat ground (m) where queries fail, unset to fail
+}
+
+/**
+ * Basemap selection in avalanches.json, either a named basemap or a tile
+ * URL template (e.g. tiles served with the app on restricted networks)
+ */
+export interface BasemapConfig {
+  id?: string;            // Named basemap (e.g. satellite), 'none' for no basemap
+  url?: string;           // Tile URL template with {level}, {col} and {row}
+  title?: string;
 }
 
 /**
@@ -54,14 +229,40 @@ export interface AvalancheConfig {
  */
 export interface AppConfig {
   avalanches: AvalancheConfig[];
+  ensembles?: EnsembleConfig[];
+  terrain?: TerrainProviderConfig;
+  basemap?: BasemapConfig;
   defaults?: {
-    gridResolution?: number;
+    maxGridCells?: number;
     exaggerationFactor?: number;
     smoothingFactor?: number;
     flattenPasses?: number;
+    loadConcurrency?: number;
+    cacheBudgetMb?: number;
   };
 }
 
+/**
+ * Options for loading the frames of a simulation
+ */
+export interface FrameLoadOptions {
+  concurrency?: number;   // Frames fetched and decoded at the same time
+  signal?: AbortSignal;   // Cancels the load
+}
+
+/**
+ * Options for initializing a simulation
+ */
+export interface SimulationLoadOptions extends FrameLoadOptions {
+  startFrames?: number;   // Frames ready before playback can start, the rest load in the background
+  maxGridCells?: number;  // Display grid budget, defaults to DEFAULT_TERRAIN_CONFIG.maxGridCells
+}
+
+/**
+ * Progress of a frame load, called once per finished frame (in completion order)
+ */
+export type FrameProgressHandler = (loaded: number, total: number, time: number) => void;
+
 /**
  * Extent data for spatial reference
  */
@@ -73,8 +274,26 @@ export interface ExtentData {
   spatialReference: { wkid: number };
 }
 
+/**
+ * Raster decoded from any supported frame format
+ * Values are row-major from the top row, NaN where there is no data.
+ */
+export interface DecodedRaster {
+  values: ArrayLike<number>;
+  width: number;
+  height: number;
+  extent: ExtentData;
+  cellWidth: number;
+  cellHeight: number;
+  noDataValue?: number;   // GeoTIFF no-data value (text formats use NaN)
+  validator?: string | null; // ETag or Last-Modified of the fetched file
+}
+
 /**
  * Parsed flow height data from TIFF
+ * The grid keeps the raster's aspect ratio, width × height cells centered in
+ * the extent. nonZeroCount refers to this grid; maxHeight, meanHeight and
+ * affectedArea (m²) are computed from the full-resolution source raster.
  */
 export interface FlowHeightData {
   flowHeights: Float32Array;
@@ -83,15 +302,169 @@ export interface FlowHeightData {
   height: number;
   maxHeight: number;
   nonZeroCount: number;
+  meanHeight: number;
+  affectedArea: number;
+}
+
+/**
+ * Parsed result variable data from TIFF (gridded like flow height)
+ */
+export interface ResultFrameData {
+  values: Float32Array;
+  extent: ExtentData;
+  width: number;
+  height: number;
+  maxValue: number;
+  nonZeroCount: number;
+  meanValue: number;
+  affectedArea: number;
+  validator?: string | null; // ETag or Last-Modified of the decoded file
+}
+
+/**
+ * Problem with a frame file found while loading a simulation
+ * - missing: an expected frame could not be loaded
+ * - unexpected: a frame or file that does not fit the frame list (listed
+ *   twice, different grid than the other frames, or not part of any series)
+ */
+export type FrameWarningKind = 'missing' | 'unexpected';
+
+/**
+ * Structured frame loading warning
+ */
+export interface FrameWarning {
+  kind: FrameWarningKind;
+  time: number | null;
+  file: string;
+  message: string;
+}
+
+/**
+ * Flow statistics of a single frame
+ */
+export interface FrameStatistics {
+  time: number;
+  affectedArea: number;
+  maxHeight: number;
+  meanHeight: number;
+}
+
+/**
+ * Per-vertex values used to color a mesh independently of the flow height
+ * used for extrusion. Classes take precedence over color stops.
+ */
+export interface MeshColoring {
+  values: Float32Array;
+  stops?: ColorStop[];
+  classes?: HazardClass[];
+}
+
+/**
+ * Ground vertices of a mesh grid as flat x, y, z triples (row-major)
+ */
+export interface GroundGrid {
+  positions: Float64Array;
+  width: number;
+  height: number;
+}
+
+/**
+ * Vertex buffers of a flow mesh (flat shaded, one color per vertex)
+ */
+export interface MeshGeometry {
+  positions: Float64Array;
+  colors: Uint8Array;
+  faces: Uint32Array;
+}
+
+/**
+ * Area covered by a hazard class
+ */
+export interface HazardClassArea {
+  name: string;
+  color: RGBAColor;
+  min: number;
+  area: number;
 }
 
 /**
- * Grid data for mesh generation
+ * Time series of a result variable at a probed location
+ * Values are null where the frame could not be read.
+ */
+export interface ProbeSeries {
+  variable: ResultVariableConfig;
+  times: number[];
+  values: (number | null)[];
+}
+
+/**
+ * Location with ground elevation
+ */
+export interface ElevatedPoint {
+  x: number;
+  y: number;
+  z: number;
+}
+
+/**
+ * Position of the flow front at a time step
+ */
+export interface FrontPosition {
+  time: number;
+  distance: number;
+  velocity: number | null;
+}
+
+/**
+ * Runout analysis of a simulation relative to the top of its release area
+ */
+export interface RunoutResult {
+  releaseTop: ElevatedPoint;
+  runoutPoint: ElevatedPoint;
+  runoutDistance: number;
+  travelAngle: number;
+  maxFrontVelocity: number;
+  front: FrontPosition[];
+}
+
+/**
+ * Reason a frame is flagged in the volume balance
+ * - missing: frame could not be loaded
+ * - gain: volume grows unexpectedly (entrainment, data errors)
+ * - loss: volume drops unexpectedly (outflow, missing tiles)
+ */
+export type VolumeFlag = 'missing' | 'gain' | 'loss';
+
+/**
+ * Volume in motion at a time step
+ */
+export interface VolumeSample {
+  time: number;
+  volume: number | null;
+  change: number | null;
+  flag: VolumeFlag | null;
+}
+
+/**
+ * Volume balance of a simulation against its release volume
+ */
+export interface VolumeBalanceResult {
+  releaseVolume: number | null;
+  samples: VolumeSample[];
+}
+
+/**
+ * Grid data for mesh generation (width × height points, row-major, top row first)
+ * Points are in the scene's spatial reference, which may differ from the
+ * spatial reference of the rasters they were derived from.
  */
 export interface GridData {
   points: [number, number][];
   elevations: Float64Array;
-  resolution: number;
+  width: number;
+  height: number;
+  spatialReference: { wkid: number };
+  elevationError?: Error; // Failed elevation query replaced by the flat fallback
 }
 
 /**
@@ -121,6 +494,8 @@ export type AnimationEventType =
   | 'playStateChange'
   | 'loadProgress'
   | 'ready'
+  | 'loadComplete'
+  | 'bufferingChange'
   | 'error';
 
 /**
@@ -135,6 +510,7 @@ export interface AnimationEvent {
   total?: number;
   error?: Error;
   time?: number;
+  isBuffering?: boolean;
 }
 
 /**
@@ -4,17 +4,73 @@ import type SceneView from '@arcgis/core/views/SceneView';
 import type {
   AvalancheConfig,
   AnimationState,
+  ColorMode,
+  ColorStop,
+  HazardClass,
+  HazardClassArea,
   AnimationEvent,
   AnimationEventHandler,
   FlowHeightData,
+  FrameProgressHandler,
+  FrameStatistics,
+  FrameWarning,
   GridData,
   ExtentData,
+  MeshColoring,
+  MeshGeometry,
+  ResultFrameData,
+  ProbeSeries,
+  ResultVariableConfig,
+  RunoutResult,
+  SimulationLoadOptions,
+  SimulationProduct,
+  VolumeBalanceResult,
 } from '../config/types';
-import { DEFAULT_ANIMATION, DEFAULT_TERRAIN_CONFIG } from '../config/constants';
-import { preloadAllFrames, generateTimeSteps } from './TiffLoader';
-import { createMesh } from './MeshGenerator';
+import {
+  DEFAULT_ANIMATION,
+  DEFAULT_TERRAIN_CONFIG,
+  COLOR_STOPS,
+  FLOW_HEIGHT_VARIABLE_ID,
+  VARIABLE_COLOR_STOPS,
+  DEFAULT_HAZARD_CLASSES,
+  ENVELOPE_COLOR_STOPS,
+  ARRIVAL_COLOR_STOPS,
+  DEFAULT_ARRIVAL,
+  DEFAULT_LOAD_CONCURRENCY,
+  DEFAULT_START_FRAMES,
+  WEB_MERCATOR_WKID,
+} from '../config/constants';
+import {
+  preloadAllFrames,
+  preloadVariableFrames,
+  generateTimeSteps,
+  getDemUrl,
+  getFrameFileName,
+  getResultVariables,
+  getTiffUrl,
+  readTiffPixel,
+  revokeFileUrls,
+} from './TiffLoader';
+import { createMesh, createMeshFromGeometry, createMeshGraphic } from './MeshGenerator';
+import { getWorkerPool } from './WorkerPool';
 import { getElevationService } from './ElevationService';
-import { generateSmoothedGrid } from '../utils/interpolation';
+import type { LocalDem } from './LocalDem';
+import { bilinearInterpolate, generateSmoothedGrid } from '../utils/interpolation';
+import {
+  computeArrivalTimes,
+  computeCellMaximum,
+  getCellArea,
+  getPointsExtent,
+  summarizeClassAreas,
+  toGridCoordinates,
+} from '../utils/gridUtils';
+import { projectPoints } from '../utils/projectionUtils';
+import { toGroundGrid } from '../utils/meshGeometry';
+import { createContourGraphics } from './ContourGenerator';
+import { analyzeRunout } from './RunoutAnalysis';
+import { analyzeVolumeBalance } from './VolumeBalance';
+import { calculatePolygonArea } from '../utils/geometryUtils';
+import { mapConcurrent } from '../utils/asyncUtils';
 
 /**
  * Manages a single avalanche simulation animation
@@ -30,11 +86,35 @@ export class AvalancheSimulation {
 
   // Cached data
   private frameCache: Map<number, FlowHeightData> = new Map();
+  private variableCache: Map<string, Map<number, ResultFrameData>> = new Map();
+  private activeVariableId: string = FLOW_HEIGHT_VARIABLE_ID;
+  private colorMode: ColorMode = 'continuous';
   private meshCache: Map<number, Graphic> = new Map();
   private meshExtent: ExtentData | null = null;
   private baseGridData: GridData | null = null;
+  private dem: LocalDem | null = null;
   private smoothedGridData: GridData | null = null;
   private currentFrameTime: number | null = null;
+  private envelopeData: FlowHeightData | null = null;
+  private arrivalTimes: Float32Array | null = null;
+  private runoutResult: RunoutResult | null = null;
+  private volumeBalance: VolumeBalanceResult | null = null;
+  private frameWarnings: FrameWarning[] = [];
+  private loadConcurrency: number = DEFAULT_LOAD_CONCURRENCY;
+  private maxGridCells: number = DEFAULT_TERRAIN_CONFIG.maxGridCells;
+  private meshGeneration = 0;
+  private groundId: number | null = null; // Ground grid registered with the worker pool
+  private gridReady: Promise<void> | null = null;
+  private loading: Promise<void> | null = null;
+  private loadController: AbortController | null = null;
+  private variableLoads: Map<string, { promise: Promise<void>; controller: AbortController }> = new Map();
+  private variableSwitchId: string | null = null; // Variable a pending setVariable is loading
+  private pendingTimes: Set<number> = new Set();
+  private isBuffering = false;
+  private arrivalThreshold: number = DEFAULT_ARRIVAL.threshold;
+  private productGraphics: Map<SimulationProduct, Graphic[]> = new Map();
+  private activeProduct: SimulationProduct | null = null;
+  private isShown = true;
   private exaggerationFactor: number = DEFAULT_TERRAIN_CONFIG.exaggerationFactor;
 
   // Event handlers
@@ -54,113 +134,958 @@ export class AvalancheSimulation {
 
   /**
    * Initialize the simulation with a SceneView
+   * Resolves once the first startFrames frames have meshes, the remaining
+   * frames load in the background in time order (see isLoading and the
+   * loadComplete event). The background load stops when the signal is
+   * aborted or the simulation is disposed.
    */
-  async initialize(view: SceneView, onProgress?: (loaded: number, total: number) => void): Promise<void> {
+  async initialize(
+    view: SceneView,
+    onProgress?: FrameProgressHandler,
+    options: SimulationLoadOptions = {}
+  ): Promise<void> {
     this.view = view;
+    this.loadConcurrency = options.concurrency ?? DEFAULT_LOAD_CONCURRENCY;
+    this.maxGridCells = options.maxGridCells ?? DEFAULT_TERRAIN_CONFIG.maxGridCells;
+    const startFrames = Math.max(1, options.startFrames ?? DEFAULT_START_FRAMES);
 
-    // Preload all frames
-    this.frameCache = await preloadAllFrames(
+    const controller = new AbortController();
+    this.loadController = controller;
+    const { signal } = controller;
+    if (options.signal?.aborted) {
+      controller.abort(options.signal.reason);
+    } else {
+      options.signal?.addEventListener('abort', () => controller.abort(options.signal!.reason), {
+        once: true,
+      });
+    }
+
+    this.pendingTimes = new Set(this.timeSteps);
+    const frameTasks: Promise<void>[] = [];
+    const meshWarnings: FrameWarning[] = [];
+    let readyCount = 0;
+    let isStarted = false;
+    let start!: () => void;
+    let fail!: (error: unknown) => void;
+    const started = new Promise<void>((resolve, reject) => {
+      start = resolve;
+      fail = reject;
+    });
+    // Rejections after the start are reported through the loading promise
+    started.catch(() => {});
+
+    // Frames arrive in time order, playback can start after the first ones
+    this.loading = preloadAllFrames(
       this.config,
-      DEFAULT_TERRAIN_CONFIG.gridResolution,
-      onProgress
+      this.maxGridCells,
+      onProgress,
+      { concurrency: this.loadConcurrency, signal },
+      (time, frame) => {
+        // A frame whose mesh fails becomes a warning, tasks never reject
+        frameTasks.push(this.addLoadedFrame(time, frame, signal).catch((error) => {
+          // Without a grid (e.g. no ground elevations) the start fails instead
+          if (signal.aborted || !this.baseGridData) return;
+          console.error(`Failed to build the mesh at ${time}s for ${this.config.name}:`, error);
+          meshWarnings.push({
+            kind: 'missing',
+            time,
+            file: getFrameFileName(this.config, time),
+            message: `Mesh could not be built: ${(error as Error).message}`,
+          });
+        }));
+        if (frame && ++readyCount === startFrames) {
+          Promise.all(frameTasks).then(() => this.gridReady).then(start, fail);
+        }
+      }
+    ).then(
+      async ({ warnings }) => {
+        await Promise.all(frameTasks);
+        // A grid that could not be set up fails the load (also with fewer frames than startFrames)
+        await this.gridReady;
+        this.finishLoading([...warnings, ...meshWarnings]);
+      },
+      async (error) => {
+        // Frames that were never delivered are no longer pending
+        await Promise.all(frameTasks);
+        this.pendingTimes.clear();
+        if (!signal.aborted) {
+          this.finishLoading(meshWarnings);
+        }
+        throw error;
+      }
     );
 
+    // Failures before the start are thrown below
+    this.loading.catch((error) => {
+      if (isStarted && !signal.aborted) {
+        console.error(`Failed to load frames for ${this.config.name}:`, error);
+        this.emit({ type: 'error', error });
+      }
+    });
+
+    await Promise.race([started, this.loading]);
     if (this.frameCache.size === 0) {
       throw new Error(`No frames loaded for ${this.config.name}`);
     }
+    isStarted = true;
+
+    this.emit({ type: 'ready' });
+  }
+
+  /**
+   * Check if frames are still loading in the background
+   */
+  isLoading(): boolean {
+    return this.pendingTimes.size > 0;
+  }
+
+  /**
+   * Wait until all frames are loaded
+   */
+  async whenLoaded(): Promise<void> {
+    await this.loading;
+  }
+
+  /**
+   * Add a frame delivered by the background load and build its mesh
+   * The first frame defines the grid and triggers the ground elevation query.
+   */
+  private async addLoadedFrame(
+    time: number,
+    frame: FlowHeightData | null,
+    signal: AbortSignal
+  ): Promise<void> {
+    try {
+      if (!frame) return;
+
+      this.frameCache.set(time, frame);
+      this.gridReady ??= this.initializeGrid(frame, signal);
+      await this.gridReady;
+      if (frame.nonZeroCount === 0) return;
+
+      // A rebuild started meanwhile already covers this frame
+      const generation = this.meshGeneration;
+      const geometry = await this.buildFrameGeometry(time, signal);
+      if (!geometry || !this.view || !this.baseGridData || generation !== this.meshGeneration) return;
+
+      this.replaceMeshGraphic(time, createMeshGraphic(
+        createMeshFromGeometry(geometry, this.baseGridData.spatialReference)
+      ));
+      if (time === this.currentFrameTime && !this.activeProduct && this.isShown) {
+        this.meshCache.get(time)!.visible = true;
+      }
+    } finally {
+      this.pendingTimes.delete(time);
+    }
+  }
 
-    // Get extent from first frame
-    const firstFrame = this.frameCache.values().next().value;
-    if (firstFrame) {
-      this.meshExtent = firstFrame.extent;
+  /**
+   * Take the extent and grid size from the first frame and query the
+   * ground elevations of the grid
+   * The DEM of the config is loaded first so the grid is sampled from it; if
+   * it cannot be loaded the elevation service is used, with a warning.
+   * Elevation failures are emitted as error events: a flat fallback grid
+   * loads on, otherwise loading fails.
+   */
+  private async initializeGrid(frame: FlowHeightData, signal: AbortSignal): Promise<void> {
+    this.meshExtent = frame.extent;
+
+    const demUrl = getDemUrl(this.config);
+    if (demUrl) {
+      try {
+        this.dem = await getElevationService().loadDem(
+          demUrl,
+          this.config.wkid ?? frame.extent.spatialReference.wkid,
+          signal
+        );
+      } catch (error) {
+        if (signal.aborted) throw error;
+        console.error(`Failed to load the DEM of ${this.config.name}:`, error);
+        this.frameWarnings.push({
+          kind: 'missing',
+          time: null,
+          file: this.config.dem!,
+          message: `DEM could not be loaded, using the elevation service: ${(error as Error).message}`,
+        });
+      }
     }
 
-    if (!this.meshExtent) {
-      throw new Error(`Could not determine extent for ${this.config.name}`);
+    try {
+      this.baseGridData = await getElevationService().queryGridElevations(
+        frame.extent,
+        frame.width,
+        frame.height,
+        this.dem ? [this.dem] : [],
+        signal
+      );
+    } catch (error) {
+      if (!signal.aborted) {
+        console.error(`Failed to query ground elevations for ${this.config.name}:`, error);
+        this.emit({ type: 'error', error: error as Error });
+      }
+      throw error;
     }
+    signal.throwIfAborted();
 
-    // Query ground elevations
-    const elevationService = getElevationService();
-    this.baseGridData = await elevationService.queryGridElevations(
-      this.meshExtent,
-      DEFAULT_TERRAIN_CONFIG.gridResolution
-    );
+    const { elevationError } = this.baseGridData;
+    if (elevationError) {
+      this.frameWarnings.push({
+        kind: 'missing',
+        time: null,
+        file: getElevationService().getProvider().name,
+        message: `Ground elevations unavailable, using flat ground: ${elevationError.message}`,
+      });
+      this.emit({ type: 'error', error: elevationError });
+    }
 
     // Generate smoothed grid
     this.updateSmoothedGrid();
+  }
 
-    // Pre-build all mesh graphics
-    this.rebuildMeshCache();
+  /**
+   * Store the warnings of the completed background load and recompute the
+   * products derived from all frames
+   */
+  private finishLoading(warnings: FrameWarning[]): void {
+    // Warnings of result variables may have been added meanwhile
+    this.frameWarnings = [...warnings, ...this.frameWarnings];
+    this.envelopeData = null;
+    this.arrivalTimes = null;
+    this.runoutResult = null;
+    this.volumeBalance = null;
 
-    this.emit({ type: 'ready' });
+    Array.from(this.productGraphics.keys()).forEach((product) => {
+      this.rebuildProductGraphics(product);
+    });
+
+    this.emit({ type: 'loadComplete' });
   }
 
   /**
    * Build mesh graphics for all frames
+   * The vertex buffers are built in the worker pool and the previous meshes
+   * stay in the view until all new ones are ready. Results of a rebuild
+   * superseded by a later one are discarded.
    */
-  private rebuildMeshCache(): void {
+  private async rebuildMeshCache(signal?: AbortSignal): Promise<void> {
     if (!this.view || !this.baseGridData || !this.meshExtent) return;
 
-    // Remove existing meshes from view
-    this.meshCache.forEach((graphic) => {
+    const generation = ++this.meshGeneration;
+
+    // Build the vertex buffers of each loaded frame with flow
+    const times = this.timeSteps.filter((time) => (this.frameCache.get(time)?.nonZeroCount ?? 0) > 0);
+    const geometries = await Promise.all(times.map((time) => this.buildFrameGeometry(time, signal)));
+    signal?.throwIfAborted();
+    if (generation !== this.meshGeneration || !this.view || !this.baseGridData) return;
+
+    // Replace the rebuilt meshes, frames loaded meanwhile already use the new settings
+    const { spatialReference } = this.baseGridData;
+    times.forEach((time, i) => {
+      const geometry = geometries[i];
+      this.replaceMeshGraphic(
+        time,
+        geometry ? createMeshGraphic(createMeshFromGeometry(geometry, spatialReference)) : null
+      );
+    });
+
+    // Rebuild static products that depend on the mesh settings
+    Array.from(this.productGraphics.keys()).forEach((product) => {
+      this.rebuildProductGraphics(product);
+    });
+  }
+
+  /**
+   * Build the vertex buffers of a frame's mesh in the worker pool with the
+   * current display settings
+   */
+  private buildFrameGeometry(time: number, signal?: AbortSignal): Promise<MeshGeometry | null> {
+    const flowData = this.frameCache.get(time)!;
+    return getWorkerPool().buildMeshGeometry(
+      flowData.flowHeights,
+      flowData.width,
+      flowData.height,
+      this.groundId!,
+      this.exaggerationFactor,
+      this.state.flattenPasses,
+      this.getMeshColoring(time),
+      signal
+    );
+  }
+
+  /**
+   * Replace the mesh graphic of a frame in the view (remove it if null)
+   */
+  private replaceMeshGraphic(time: number, graphic: Graphic | null): void {
+    const previous = this.meshCache.get(time);
+    if (previous) {
+      this.view?.graphics.remove(previous);
+      this.meshCache.delete(time);
+    }
+    if (graphic) {
+      this.meshCache.set(time, graphic);
+      this.view?.graphics.add(graphic);
+    }
+  }
+
+  /**
+   * Get the maximum flow height over all loaded time steps
+   */
+  getMaxEnvelope(): FlowHeightData | null {
+    if (this.envelopeData) return this.envelopeData;
+
+    const frames = Array.from(this.frameCache.values());
+    if (frames.length === 0) return null;
+
+    const { width, height, extent } = frames[0];
+    const flowHeights = computeCellMaximum(
+      frames.map((frame) => frame.flowHeights),
+      width * height
+    );
+
+    let maxHeight = 0;
+    let nonZeroCount = 0;
+    let sum = 0;
+    for (const value of flowHeights) {
+      if (value > 0) {
+        nonZeroCount++;
+        sum += value;
+        if (value > maxHeight) maxHeight = value;
+      }
+    }
+
+    this.envelopeData = {
+      flowHeights,
+      extent,
+      width,
+      height,
+      maxHeight,
+      nonZeroCount,
+      meanHeight: nonZeroCount > 0 ? sum / nonZeroCount : 0,
+      affectedArea: nonZeroCount * getCellArea(extent, width, height),
+    };
+    return this.envelopeData;
+  }
+
+  /**
+   * Get the first time each grid cell is reached by the flow (NaN if never)
+   */
+  getArrivalTimes(): Float32Array | null {
+    if (this.arrivalTimes) return this.arrivalTimes;
+
+    const frames = this.timeSteps
+      .filter((time) => this.frameCache.has(time))
+      .map((time) => ({ time, values: this.frameCache.get(time)!.flowHeights }));
+    if (frames.length === 0) return null;
+
+    const firstFrame = this.frameCache.get(frames[0].time)!;
+    this.arrivalTimes = computeArrivalTimes(
+      frames,
+      firstFrame.width * firstFrame.height,
+      this.arrivalThreshold
+    );
+    return this.arrivalTimes;
+  }
+
+  /**
+   * Get the runout analysis (runout distance, travel angle, front velocity)
+   * Returns null without a release area or ground elevations.
+   */
+  getRunoutAnalysis(): RunoutResult | null {
+    if (this.runoutResult) return this.runoutResult;
+    if (!this.config.releaseArea || !this.baseGridData) return null;
+
+    const frames = this.timeSteps
+      .filter((time) => this.frameCache.has(time))
+      .map((time) => ({ time, data: this.frameCache.get(time)! }));
+
+    this.runoutResult = analyzeRunout(this.config.releaseArea, this.baseGridData, frames);
+    return this.runoutResult;
+  }
+
+  /**
+   * Get the problems found while loading the frames (flow height and loaded variables)
+   */
+  getFrameWarnings(): FrameWarning[] {
+    return [...this.frameWarnings];
+  }
+
+  /**
+   * Get the volume in motion per frame compared to the release volume
+   * (release depth times geodesic release area, if both are configured)
+   */
+  getVolumeBalance(): VolumeBalanceResult {
+    if (this.volumeBalance) return this.volumeBalance;
+
+    const { releaseArea, releaseDepth } = this.config;
+    const releaseVolume = releaseArea && releaseDepth
+      ? calculatePolygonArea(releaseArea) * releaseDepth
+      : null;
+
+    this.volumeBalance = analyzeVolumeBalance(this.timeSteps, this.frameCache, releaseVolume);
+    return this.volumeBalance;
+  }
+
+  /**
+   * Get affected area, max and mean flow height for every loaded frame
+   */
+  getFrameStatistics(): FrameStatistics[] {
+    return this.timeSteps
+      .filter((time) => this.frameCache.has(time))
+      .map((time) => {
+        const frame = this.frameCache.get(time)!;
+        return {
+          time,
+          affectedArea: frame.affectedArea,
+          maxHeight: frame.maxHeight,
+          meanHeight: frame.meanHeight,
+        };
+      });
+  }
+
+  /**
+   * Get the flow height threshold used for arrival times
+   */
+  getArrivalThreshold(): number {
+    return this.arrivalThreshold;
+  }
+
+  /**
+   * Set the flow height threshold used for arrival times
+   */
+  setArrivalThreshold(threshold: number): void {
+    if (threshold === this.arrivalThreshold) return;
+
+    this.arrivalThreshold = threshold;
+    this.arrivalTimes = null;
+
+    if (this.productGraphics.has('arrivalTime')) {
+      this.rebuildProductGraphics('arrivalTime');
+    }
+  }
+
+  /**
+   * Build (or rebuild) the graphics of a static product
+   */
+  private rebuildProductGraphics(product: SimulationProduct): void {
+    if (!this.view || !this.baseGridData) return;
+
+    this.productGraphics.get(product)?.forEach((graphic) => {
       this.view!.graphics.remove(graphic);
     });
-    this.meshCache.clear();
+    this.productGraphics.delete(product);
 
-    // Build a mesh for each frame
-    for (const time of this.timeSteps) {
-      const flowData = this.frameCache.get(time);
-      if (!flowData) continue;
+    const graphics = product === 'envelope'
+      ? this.createEnvelopeGraphics()
+      : this.createArrivalTimeGraphics();
+
+    const visible = this.activeProduct === product && this.isShown;
+    graphics.forEach((graphic) => {
+      graphic.visible = visible;
+      this.view!.graphics.add(graphic);
+    });
+    this.productGraphics.set(product, graphics);
+  }
+
+  /**
+   * Create the static max envelope mesh
+   */
+  private createEnvelopeGraphics(): Graphic[] {
+    const envelope = this.getMaxEnvelope();
+    if (!envelope || !this.baseGridData) return [];
 
-      const terrainConfig = {
-        ...DEFAULT_TERRAIN_CONFIG,
-        exaggerationFactor: this.exaggerationFactor
-      };
+    const mesh = createMesh(
+      envelope,
+      this.baseGridData,
+      this.smoothedGridData,
+      { ...DEFAULT_TERRAIN_CONFIG, exaggerationFactor: this.exaggerationFactor },
+      this.state.smoothingFactor,
+      this.state.flattenPasses,
+      { values: envelope.flowHeights, stops: ENVELOPE_COLOR_STOPS }
+    );
+
+    return mesh ? [createMeshGraphic(mesh)] : [];
+  }
+
+  /**
+   * Create the draped arrival time mesh with labeled contours
+   */
+  private createArrivalTimeGraphics(): Graphic[] {
+    const arrival = this.getArrivalTimes();
+    const envelope = this.getMaxEnvelope();
+    if (!arrival || !envelope || !this.baseGridData || !this.meshExtent) return [];
 
-      const mesh = createMesh(
-        flowData,
+    const { width, height } = envelope;
+    const lastTime = this.timeSteps[this.timeSteps.length - 1] ?? 0;
+    const interval = DEFAULT_ARRIVAL.contourInterval;
+
+    // Footprint of reached cells, draped on the ground (no extrusion);
+    // unreached cells stay NaN, contours end at the footprint edge
+    const footprint = new Float32Array(arrival.length);
+    let nonZeroCount = 0;
+    for (let i = 0; i < arrival.length; i++) {
+      const reached = !isNaN(arrival[i]);
+      footprint[i] = reached ? 1 : 0;
+      if (reached) nonZeroCount++;
+    }
+
+    const graphics: Graphic[] = [];
+
+    const mesh = createMesh(
+      { ...envelope, flowHeights: footprint, maxHeight: 1, nonZeroCount },
+      this.baseGridData,
+      this.smoothedGridData,
+      { ...DEFAULT_TERRAIN_CONFIG, exaggerationFactor: 0 },
+      this.state.smoothingFactor,
+      0,
+      { values: arrival, stops: ARRIVAL_COLOR_STOPS }
+    );
+    if (mesh) {
+      graphics.push(createMeshGraphic(mesh));
+    }
+
+    const levels: number[] = [];
+    for (let level = interval; level <= lastTime; level += interval) {
+      levels.push(level);
+    }
+
+    graphics.push(
+      ...createContourGraphics(
+        arrival,
+        width,
+        height,
         this.baseGridData,
-        this.smoothedGridData,
-        terrainConfig,
-        this.state.smoothingFactor,
-        this.state.flattenPasses
-      );
+        levels,
+        (level) => `${level} s`
+      )
+    );
 
-      if (mesh) {
-        const graphic = new Graphic({
-          geometry: mesh,
-          symbol: {
-            type: 'mesh-3d',
-            symbolLayers: [
-              {
-                type: 'fill',
-                material: {
-                  color: [255, 255, 255, 255],
-                  colorMixMode: 'multiply',
-                },
-                edges: null,
-              },
-            ],
-          } as unknown as __esri.MeshSymbol3D,
-          visible: false,
-        });
+    return graphics;
+  }
 
-        (graphic as unknown as { elevationInfo: { mode: string } }).elevationInfo = {
-          mode: 'absolute-height',
-        };
+  /**
+   * Get the static product displayed instead of the animated frames
+   */
+  getProduct(): SimulationProduct | null {
+    return this.activeProduct;
+  }
+
+  /**
+   * Display a static product (max envelope, arrival time) instead of the
+   * animated frame meshes, or null to show the animation again
+   */
+  setProduct(product: SimulationProduct | null): void {
+    this.activeProduct = product;
+
+    if (product && !this.productGraphics.has(product)) {
+      this.rebuildProductGraphics(product);
+    }
+
+    if (this.isShown) {
+      this.hide();
+      this.show();
+    }
+  }
+
+  /**
+   * Get the coloring for a frame: hazard classes in classified mode,
+   * otherwise the active variable if it is not flow height
+   */
+  private getMeshColoring(time: number): MeshColoring | undefined {
+    const hazardZones = this.config.hazardZones;
+    if (this.colorMode === 'classified' && hazardZones) {
+      const values = this.getVariableValues(hazardZones.variable, time);
+      return values ? { values, classes: this.getHazardClasses() } : undefined;
+    }
+
+    if (this.activeVariableId === FLOW_HEIGHT_VARIABLE_ID) return undefined;
+
+    const values = this.getVariableValues(this.activeVariableId, time);
+    if (!values) return undefined;
 
-        this.meshCache.set(time, graphic);
-        this.view.graphics.add(graphic);
+    return {
+      values,
+      stops: this.getVariableColorStops(this.getActiveVariable()),
+    };
+  }
+
+  /**
+   * Get the resampled values of a loaded result variable for a frame
+   */
+  private getVariableValues(variableId: string, time: number): Float32Array | undefined {
+    if (variableId === FLOW_HEIGHT_VARIABLE_ID) {
+      return this.frameCache.get(time)?.flowHeights;
+    }
+    return this.variableCache.get(variableId)?.get(time)?.values;
+  }
+
+  /**
+   * Get the color stops for a result variable
+   */
+  getVariableColorStops(variable: ResultVariableConfig): ColorStop[] {
+    return variable.colorStops ?? VARIABLE_COLOR_STOPS[variable.id] ?? COLOR_STOPS;
+  }
+
+  /**
+   * Get all result variables available for this simulation
+   */
+  getVariables(): ResultVariableConfig[] {
+    return getResultVariables(this.config);
+  }
+
+  /**
+   * Get the result variable currently used for coloring
+   */
+  getActiveVariable(): ResultVariableConfig {
+    const variables = this.getVariables();
+    return variables.find((v) => v.id === this.activeVariableId) ?? variables[0];
+  }
+
+  /**
+   * Load the frames of a result variable if not cached yet
+   * Concurrent requests for a variable share one load, which is cancelled by
+   * dispose or by a superseding setVariable.
+   */
+  private async loadVariable(
+    variableId: string,
+    onProgress?: (loaded: number, total: number) => void
+  ): Promise<void> {
+    const variable = this.getVariables().find((v) => v.id === variableId);
+    if (!variable) {
+      throw new Error(`Unknown result variable for ${this.config.name}: ${variableId}`);
+    }
+
+    if (variable.id === FLOW_HEIGHT_VARIABLE_ID || this.variableCache.has(variable.id)) {
+      return;
+    }
+
+    let load = this.variableLoads.get(variable.id);
+    if (!load || load.controller.signal.aborted) {
+      const controller = new AbortController();
+      const promise = this.fetchVariable(variable, controller.signal, onProgress).finally(() => {
+        if (this.variableLoads.get(variable.id)?.controller === controller) {
+          this.variableLoads.delete(variable.id);
+        }
+      });
+      load = { promise, controller };
+      this.variableLoads.set(variable.id, load);
+    }
+    await load.promise;
+  }
+
+  /**
+   * Fetch and check the frames of a result variable, then cache them
+   */
+  private async fetchVariable(
+    variable: ResultVariableConfig,
+    signal: AbortSignal,
+    onProgress?: (loaded: number, total: number) => void
+  ): Promise<void> {
+    const { frames, warnings } = await preloadVariableFrames(
+      this.config,
+      variable,
+      this.maxGridCells,
+      onProgress,
+      { concurrency: this.loadConcurrency, signal }
+    );
+    signal.throwIfAborted();
+    this.frameWarnings.push(...warnings);
+
+    if (frames.size === 0) {
+      throw new Error(`No ${variable.name} frames loaded for ${this.config.name}`);
+    }
+
+    // Variable values color the flow height mesh vertex by vertex
+    const first = frames.values().next().value;
+    if (first && this.baseGridData &&
+      (first.width !== this.baseGridData.width || first.height !== this.baseGridData.height)) {
+      throw new Error(`${variable.name} frames of ${this.config.name} are on a different grid than flow height`);
+    }
+
+    this.variableCache.set(variable.id, frames);
+  }
+
+  /**
+   * Switch the result variable used for coloring, loading its frames if needed.
+   * The mesh is still extruded by flow height. A switch still loading is
+   * cancelled by the next one, its promise then rejects with an AbortError.
+   */
+  async setVariable(
+    variableId: string,
+    onProgress?: (loaded: number, total: number) => void
+  ): Promise<void> {
+    if (this.variableSwitchId !== null && this.variableSwitchId !== variableId) {
+      this.variableLoads.get(this.variableSwitchId)?.controller.abort();
+    }
+    this.variableSwitchId = variableId;
+    try {
+      await this.loadVariable(variableId, onProgress);
+    } finally {
+      if (this.variableSwitchId === variableId) {
+        this.variableSwitchId = null;
+      }
+    }
+
+    this.activeVariableId = variableId;
+    await this.rebuildMeshCache();
+    this.displayFrame(this.state.currentFrameIndex);
+  }
+
+  /**
+   * Get the per-cell maximum of a result variable over all time steps,
+   * loading its frames if needed
+   */
+  async getVariablePeak(
+    variableId: string,
+    onProgress?: (loaded: number, total: number) => void
+  ): Promise<ResultFrameData | null> {
+    await this.loadVariable(variableId, onProgress);
+
+    const frame = Array.from(this.frameCache.values())[0];
+    if (!frame) return null;
+
+    const grids: Float32Array[] = [];
+    for (const time of this.timeSteps) {
+      const values = this.getVariableValues(variableId, time);
+      if (values) grids.push(values);
+    }
+    if (grids.length === 0) return null;
+
+    const { extent, width, height } = frame;
+    const values = computeCellMaximum(grids, width * height);
+
+    let maxValue = 0;
+    let nonZeroCount = 0;
+    let sum = 0;
+    for (const value of values) {
+      if (value > 0) {
+        nonZeroCount++;
+        sum += value;
+        if (value > maxValue) maxValue = value;
+      }
+    }
+
+    return {
+      values,
+      extent,
+      width,
+      height,
+      maxValue,
+      nonZeroCount,
+      meanValue: nonZeroCount > 0 ? sum / nonZeroCount : 0,
+      affectedArea: nonZeroCount * getCellArea(extent, width, height),
+    };
+  }
+
+  /**
+   * Get the current color mode
+   */
+  getColorMode(): ColorMode {
+    return this.colorMode;
+  }
+
+  /**
+   * Check if the config defines a hazard-zone classification
+   */
+  hasHazardZones(): boolean {
+    return !!this.config.hazardZones;
+  }
+
+  /**
+   * Get the hazard classes for this simulation, sorted by threshold
+   */
+  getHazardClasses(): HazardClass[] {
+    const classes = this.config.hazardZones?.classes ?? DEFAULT_HAZARD_CLASSES;
+    return [...classes].sort((a, b) => a.min - b.min);
+  }
+
+  /**
+   * Switch between continuous and classified coloring
+   */
+  async setColorMode(
+    mode: ColorMode,
+    onProgress?: (loaded: number, total: number) => void
+  ): Promise<void> {
+    const hazardZones = this.config.hazardZones;
+    if (mode === 'classified') {
+      if (!hazardZones) {
+        throw new Error(`No hazard zones configured for ${this.config.name}`);
       }
+      await this.loadVariable(hazardZones.variable, onProgress);
+    }
+
+    this.colorMode = mode;
+    await this.rebuildMeshCache();
+    this.displayFrame(this.state.currentFrameIndex);
+  }
+
+  /**
+   * Get the area of each hazard class, based on the per-cell maximum
+   * of the classified variable over all time steps
+   */
+  getHazardZoneSummary(): HazardClassArea[] {
+    const hazardZones = this.config.hazardZones;
+    if (!hazardZones || !this.meshExtent) return [];
+
+    const grids: Float32Array[] = [];
+    for (const time of this.timeSteps) {
+      const values = this.getVariableValues(hazardZones.variable, time);
+      if (values) grids.push(values);
     }
+    if (grids.length === 0) return [];
+
+    const frame = this.frameCache.values().next().value;
+    if (!frame) return [];
+
+    const { width, height } = frame;
+    const peak = computeCellMaximum(grids, width * height);
+    const cellArea = getCellArea(this.meshExtent, width, height);
+
+    return summarizeClassAreas(peak, this.getHazardClasses(), cellArea);
+  }
+
+  /**
+   * Project scene locations (Web Mercator) to the rasters' spatial reference
+   */
+  private toRasterPoints(points: [number, number][]): [number, number][] {
+    if (!this.meshExtent) return points;
+    return projectPoints(points, WEB_MERCATOR_WKID, this.meshExtent.spatialReference.wkid);
+  }
+
+  /**
+   * Check if a raster location is inside the simulation extent
+   */
+  private containsRasterPoint(x: number, y: number): boolean {
+    if (!this.meshExtent) return false;
+    const { xmin, ymin, xmax, ymax } = this.meshExtent;
+    return x >= xmin && x <= xmax && y >= ymin && y <= ymax;
+  }
+
+  /**
+   * Check if a scene location (Web Mercator) is inside the extent
+   */
+  containsPoint(x: number, y: number): boolean {
+    if (!this.meshExtent) return false;
+    const [[rx, ry]] = this.toRasterPoints([[x, y]]);
+    return this.containsRasterPoint(rx, ry);
+  }
+
+  /**
+   * Sample the current frame's flow height at scene locations (bilinear on the resampled grid)
+   * Locations outside the simulation extent get 0.
+   */
+  sampleFlowHeights(points: [number, number][]): number[] {
+    const frame = this.currentFrameTime !== null ? this.frameCache.get(this.currentFrameTime) : undefined;
+    if (!frame) return points.map(() => 0);
+
+    const { extent, width, height } = frame;
+    return this.toRasterPoints(points).map(([x, y]) => {
+      if (!this.containsRasterPoint(x, y)) return 0;
+      const [normX, normY] = toGridCoordinates(extent, width, height, x, y);
+      return bilinearInterpolate(frame.flowHeights, width, height, normX, normY);
+    });
+  }
+
+  /**
+   * Read the time series of flow height and all loaded result variables at a scene location
+   * Values are read from the full-resolution rasters, not the resampled grid,
+   * with at most loadConcurrency files in flight. Rejects with an AbortError
+   * when the signal is aborted.
+   */
+  async probe(sceneX: number, sceneY: number, signal?: AbortSignal): Promise<ProbeSeries[]> {
+    const [[x, y]] = this.toRasterPoints([[sceneX, sceneY]]);
+    const variables = this.getVariables().filter(
+      (v) => v.id === FLOW_HEIGHT_VARIABLE_ID || this.variableCache.has(v.id)
+    );
+    const reads = variables.flatMap((variable) => this.timeSteps.map((time) => ({ variable, time })));
+
+    const values = await mapConcurrent(
+      reads,
+      this.loadConcurrency,
+      async ({ variable, time }) => {
+        try {
+          const url = getTiffUrl(this.config, time, variable);
+          return await readTiffPixel(url, x, y, this.config.format, signal);
+        } catch (error) {
+          if (signal?.aborted) throw error;
+          console.warn(`Could not probe ${variable.name} at ${time}s:`, error);
+          return null;
+        }
+      },
+      signal
+    );
+
+    const count = this.timeSteps.length;
+    return variables.map((variable, i) => ({
+      variable,
+      times: [...this.timeSteps],
+      values: values.slice(i * count, (i + 1) * count),
+    }));
   }
 
   /**
-   * Get the simulation extent
+   * Get the simulation extent in the scene's spatial reference
    */
   getExtent(): Extent | null {
-    if (!this.meshExtent) return null;
-    return new Extent(this.meshExtent);
+    if (!this.baseGridData) return null;
+    return new Extent(getPointsExtent(this.baseGridData));
+  }
+
+  /**
+   * Get the time steps of the simulation in seconds
+   */
+  getTimeSteps(): number[] {
+    return [...this.timeSteps];
+  }
+
+  /**
+   * Get the resampled flow height frame at a time step
+   */
+  getFrame(time: number): FlowHeightData | undefined {
+    return this.frameCache.get(time);
+  }
+
+  /**
+   * Get the extent covered by the resampled frames
+   */
+  getGridExtent(): ExtentData | null {
+    return this.meshExtent;
+  }
+
+  /**
+   * Get the display grid cell budget the frames are downsampled to
+   */
+  getMaxGridCells(): number {
+    return this.maxGridCells;
+  }
+
+  /**
+   * Get the local DEM the ground grid was sampled from (null if the
+   * elevation service is used)
+   */
+  getDem(): LocalDem | null {
+    return this.dem;
+  }
+
+  /**
+   * Get the elevation query failure the ground grid was flattened for
+   * (null if the ground elevations were available)
+   */
+  getElevationError(): Error | null {
+    return this.baseGridData?.elevationError ?? null;
+  }
+
+  /**
+   * Get the ground elevation grid under the simulation extent
+   */
+  getGridData(): GridData | null {
+    return this.baseGridData;
+  }
+
+  /**
+   * Get the current flow height exaggeration factor
+   */
+  getExaggeration(): number {
+    return this.exaggerationFactor;
   }
 
   /**
@@ -217,7 +1142,7 @@ export class AvalancheSimulation {
 
     // Show new frame
     const graphic = this.meshCache.get(time);
-    if (graphic) {
+    if (graphic && !this.activeProduct && this.isShown) {
       graphic.visible = true;
     }
 
@@ -245,6 +1170,13 @@ export class AvalancheSimulation {
       if (nextIndex >= this.timeSteps.length) {
         nextIndex = 0;
       }
+
+      // Wait for the background load to catch up
+      if (this.pendingTimes.has(this.timeSteps[nextIndex])) {
+        this.setBuffering(true);
+        return;
+      }
+      this.setBuffering(false);
       this.displayFrame(nextIndex);
     }, this.state.playbackSpeed);
   }
@@ -254,6 +1186,7 @@ export class AvalancheSimulation {
    */
   pause(): void {
     this.state.isPlaying = false;
+    this.setBuffering(false);
     this.emit({ type: 'playStateChange', isPlaying: false });
 
     if (this.animationInterval) {
@@ -295,28 +1228,28 @@ export class AvalancheSimulation {
   /**
    * Set smoothing factor
    */
-  setSmoothing(factor: number): void {
+  async setSmoothing(factor: number): Promise<void> {
     this.state.smoothingFactor = factor;
     this.updateSmoothedGrid();
-    this.rebuildMeshCache();
+    await this.rebuildMeshCache();
     this.displayFrame(this.state.currentFrameIndex);
   }
 
   /**
    * Set flatten passes
    */
-  setFlattenPasses(passes: number): void {
+  async setFlattenPasses(passes: number): Promise<void> {
     this.state.flattenPasses = passes;
-    this.rebuildMeshCache();
+    await this.rebuildMeshCache();
     this.displayFrame(this.state.currentFrameIndex);
   }
 
   /**
    * Set exaggeration factor
    */
-  setExaggeration(factor: number): void {
+  async setExaggeration(factor: number): Promise<void> {
     this.exaggerationFactor = factor;
-    this.rebuildMeshCache();
+    await this.rebuildMeshCache();
     this.displayFrame(this.state.currentFrameIndex);
   }
 
@@ -337,16 +1270,27 @@ export class AvalancheSimulation {
     if (!this.baseGridData) return;
 
     if (this.state.smoothingFactor > 1) {
-      const result = generateSmoothedGrid(
-        this.baseGridData.points,
-        this.baseGridData.elevations,
-        DEFAULT_TERRAIN_CONFIG.gridResolution,
-        this.state.smoothingFactor
-      );
-      this.smoothedGridData = result;
+      this.smoothedGridData = generateSmoothedGrid(this.baseGridData, this.state.smoothingFactor);
     } else {
       this.smoothedGridData = null;
     }
+
+    // Workers keep the ground grid, mesh tasks only send the flow heights
+    const pool = getWorkerPool();
+    if (this.groundId !== null) {
+      pool.releaseGround(this.groundId);
+    }
+    this.groundId = pool.registerGround(toGroundGrid(this.smoothedGridData ?? this.baseGridData));
+  }
+
+  /**
+   * Report whether playback is waiting for frames that are still loading
+   */
+  private setBuffering(isBuffering: boolean): void {
+    if (isBuffering === this.isBuffering) return;
+
+    this.isBuffering = isBuffering;
+    this.emit({ type: 'bufferingChange', isBuffering });
   }
 
   /**
@@ -381,15 +1325,30 @@ export class AvalancheSimulation {
    * Hide all mesh graphics
    */
   hide(): void {
+    this.isShown = false;
     this.meshCache.forEach((graphic) => {
       graphic.visible = false;
     });
+    this.productGraphics.forEach((graphics) => {
+      graphics.forEach((graphic) => {
+        graphic.visible = false;
+      });
+    });
   }
 
   /**
    * Show the current frame mesh graphic
    */
   show(): void {
+    this.isShown = true;
+
+    if (this.activeProduct) {
+      this.productGraphics.get(this.activeProduct)?.forEach((graphic) => {
+        graphic.visible = true;
+      });
+      return;
+    }
+
     if (this.currentFrameTime !== null) {
       const graphic = this.meshCache.get(this.currentFrameTime);
       if (graphic) {
@@ -403,15 +1362,34 @@ export class AvalancheSimulation {
    */
   dispose(): void {
     this.pause();
+    this.loadController?.abort();
+    this.loadController = null;
+    this.variableLoads.forEach((load) => load.controller.abort());
+    this.variableLoads.clear();
+    this.pendingTimes.clear();
+    revokeFileUrls(this.config);
 
     // Remove all cached meshes from view
     if (this.view) {
       this.meshCache.forEach((graphic) => {
         this.view!.graphics.remove(graphic);
       });
+      this.productGraphics.forEach((graphics) => {
+        this.view!.graphics.removeMany(graphics);
+      });
     }
 
+    if (this.groundId !== null) {
+      getWorkerPool().releaseGround(this.groundId);
+      this.groundId = null;
+    }
     this.frameCache.clear();
+    this.variableCache.clear();
+    this.envelopeData = null;
+    this.arrivalTimes = null;
+    this.runoutResult = null;
+    this.volumeBalance = null;
+    this.productGraphics.clear();
     this.meshCache.clear();
     this.eventHandlers.clear();
     this.view = null;
@@ -0,0 +1,21 @@
+import Basemap from '@arcgis/core/Basemap';
+import WebTileLayer from '@arcgis/core/layers/WebTileLayer';
+import type { BasemapConfig } from '../config/types';
+
+/**
+ * Create the basemap selected in the app config
+ * Tile URL templates become a basemap of a single web tile layer; 'none'
+ * returns null (no basemap, e.g. without any tile source).
+ */
+export function createBasemap(config: BasemapConfig): Basemap | null {
+  if (config.url) {
+    return new Basemap({
+      baseLayers: [new WebTileLayer({ urlTemplate: config.url })],
+      title: config.title ?? 'Local tiles',
+    });
+  }
+  if (!config.id || config.id === 'none') {
+    return null;
+  }
+  return Basemap.fromId(config.id) ?? null;
+}
@@ -0,0 +1,75 @@
+import Graphic from '@arcgis/core/Graphic';
+import Point from '@arcgis/core/geometry/Point';
+import Polyline from '@arcgis/core/geometry/Polyline';
+import SimpleLineSymbol from '@arcgis/core/symbols/SimpleLineSymbol';
+import TextSymbol from '@arcgis/core/symbols/TextSymbol';
+import type { GridData } from '../config/types';
+import { traceContourSegments } from '../utils/contourUtils';
+import { interpolateGridPoint } from '../utils/gridUtils';
+import { CONTOUR_STYLE } from '../config/constants';
+
+/**
+ * Create labeled contour line graphics for a grid
+ * @param values - Grid values (row-major order, NaN for no data)
+ * @param width - Number of columns
+ * @param height - Number of rows
+ * @param gridData - Ground grid covering the same area, lines are placed slightly above it
+ * @param levels - Contour levels to trace
+ * @param formatLabel - Label text for a level
+ */
+export function createContourGraphics(
+  values: ArrayLike<number>,
+  width: number,
+  height: number,
+  gridData: GridData,
+  levels: number[],
+  formatLabel: (level: number) => string
+): Graphic[] {
+  const { spatialReference } = gridData;
+  const toMap = ([col, row]: [number, number]): number[] => {
+    const [x, y, z] = interpolateGridPoint(gridData, col / (width - 1), row / (height - 1));
+    return [x, y, z + CONTOUR_STYLE.heightOffset];
+  };
+
+  const lineSymbol = new SimpleLineSymbol({
+    color: CONTOUR_STYLE.lineColor,
+    width: CONTOUR_STYLE.lineWidth,
+  });
+
+  const graphics: Graphic[] = [];
+
+  for (const level of levels) {
+    const segments = traceContourSegments(values, width, height, level);
+    if (segments.length === 0) continue;
+
+    graphics.push(
+      new Graphic({
+        geometry: new Polyline({
+          paths: segments.map(([from, to]) => [toMap(from), toMap(to)]),
+          hasZ: true,
+          spatialReference,
+        }),
+        symbol: lineSymbol,
+      })
+    );
+
+    // Label the contour at its middle segment
+    const [from, to] = segments[Math.floor(segments.length / 2)];
+    const [x, y, z] = toMap([(from[0] + to[0]) / 2, (from[1] + to[1]) / 2]);
+
+    graphics.push(
+      new Graphic({
+        geometry: new Point({ x, y, z, spatialReference }),
+        symbol: new TextSymbol({
+          text: formatLabel(level),
+          color: CONTOUR_STYLE.labelColor,
+          haloColor: CONTOUR_STYLE.labelHaloColor,
+          haloSize: 1,
+          font: { size: CONTOUR_STYLE.labelSize },
+        }),
+      })
+    );
+  }
+
+  return graphics;
+}
@@ -0,0 +1,313 @@
+import type { ExtentData, ResultFrameData } from '../config/types';
+import { DEFAULT_CACHE_BUDGET_MB } from '../config/constants';
+
+// Database layout, bump the version when the stored data changes
+const DB_NAME = 'avalanche-viewer-cache';
+const DB_VERSION = 2;
+const DATA_STORE = 'data';
+const ENTRY_STORE = 'entries';
+const LAST_ACCESS_INDEX = 'lastAccess';
+
+// Extent coordinates are rounded to this many decimals in elevation keys
+const KEY_PRECISION = 3;
+
+// Prefix of the service worker caches (see public/sw.js), cleared with the data
+const OFFLINE_CACHE_PREFIX = 'avalanche-viewer-';
+
+/**
+ * Bookkeeping record of a cached value (stored apart from the value so the
+ * budget can be checked without reading the data)
+ */
+interface CacheEntry {
+  key: string;
+  size: number;         // bytes
+  lastAccess: number;   // ms since epoch
+}
+
+/**
+ * Decoded frame with the validator (ETag or Last-Modified) of its file
+ */
+interface CachedFrame {
+  frame: ResultFrameData;
+  validator: string | null;
+}
+
+/**
+ * Number of entries and bytes held by the cache
+ */
+export interface CacheUsage {
+  entries: number;
+  bytes: number;
+}
+
+/**
+ * Wrap an IndexedDB request in a promise
+ */
+function toPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Wait for a transaction to commit
+ */
+function whenComplete(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Get the cache key of a decoded frame
+ */
+function getFrameKey(url: string, maxCells: number, fallbackWkid: number): string {
+  return `frame|${url}|${maxCells}|${fallbackWkid}`;
+}
+
+/**
+ * Get the cache key of the ground elevations of a grid
+ */
+function getElevationKey(source: string, extent: ExtentData, width: number, height: number): string {
+  const { xmin, ymin, xmax, ymax, spatialReference } = extent;
+  const bounds = [xmin, ymin, xmax, ymax].map((value) => value.toFixed(KEY_PRECISION)).join(',');
+  return `elevation|${source}|${spatialReference.wkid}|${bounds}|${width}x${height}`;
+}
+
+/**
+ * Persistent cache of decoded frames and ground elevations in IndexedDB
+ * Entries are evicted least recently used first once the size budget is
+ * exceeded. Without IndexedDB (or if it cannot be opened) every lookup
+ * misses and nothing is stored.
+ */
+export class DataCache {
+  private db: Promise<IDBDatabase | null> | null = null;
+  private maxBytes: number = DEFAULT_CACHE_BUDGET_MB * 1024 * 1024;
+
+  /**
+   * Set the size budget in megabytes, evicting entries above it
+   */
+  async setBudget(megabytes: number): Promise<void> {
+    this.maxBytes = Math.max(0, megabytes) * 1024 * 1024;
+
+    try {
+      const db = await this.open();
+      if (db) {
+        await this.evict(db);
+      }
+    } catch (error) {
+      console.warn('Could not shrink the data cache:', error);
+    }
+  }
+
+  /**
+   * Get a decoded frame with the validator of its file (null if not cached)
+   * Frames are keyed by URL and grid resolution; local object URLs are never cached.
+   */
+  getFrame(url: string, maxCells: number, fallbackWkid: number): Promise<CachedFrame | null> {
+    if (url.startsWith('blob:')) return Promise.resolve(null);
+    return this.get<CachedFrame>(getFrameKey(url, maxCells, fallbackWkid));
+  }
+
+  /**
+   * Store a decoded frame
+   * @param validator - ETag or Last-Modified of the file, used to detect
+   *   files replaced under the same URL (e.g. re-run results)
+   */
+  putFrame(
+    url: string,
+    maxCells: number,
+    fallbackWkid: number,
+    frame: ResultFrameData,
+    validator: string | null
+  ): Promise<void> {
+    if (url.startsWith('blob:')) return Promise.resolve();
+    const value: CachedFrame = { frame, validator };
+    return this.put(getFrameKey(url, maxCells, fallbackWkid), value, frame.values.byteLength);
+  }
+
+  /**
+   * Get the ground elevations of a width × height grid (null if not cached)
+   * @param source - Identifies the elevation source the values came from
+   */
+  getElevations(
+    source: string,
+    extent: ExtentData,
+    width: number,
+    height: number
+  ): Promise<Float64Array | null> {
+    return this.get<Float64Array>(getElevationKey(source, extent, width, height));
+  }
+
+  /**
+   * Store the ground elevations of a width × height grid
+   */
+  putElevations(
+    source: string,
+    extent: ExtentData,
+    width: number,
+    height: number,
+    elevations: Float64Array
+  ): Promise<void> {
+    return this.put(getElevationKey(source, extent, width, height), elevations, elevations.byteLength);
+  }
+
+  /**
+   * Get the number of entries and bytes held by the cache
+   */
+  async getUsage(): Promise<CacheUsage> {
+    const db = await this.open();
+    if (!db) return { entries: 0, bytes: 0 };
+
+    const entries = await toPromise<CacheEntry[]>(
+      db.transaction(ENTRY_STORE).objectStore(ENTRY_STORE).getAll()
+    );
+    return { entries: entries.length, bytes: entries.reduce((sum, entry) => sum + entry.size, 0) };
+  }
+
+  /**
+   * Remove all cached data, including the files kept for offline use
+   */
+  async clear(): Promise<void> {
+    if (typeof caches !== 'undefined') {
+      const names = await caches.keys();
+      await Promise.all(
+        names.filter((name) => name.startsWith(OFFLINE_CACHE_PREFIX)).map((name) => caches.delete(name))
+      );
+    }
+
+    const db = await this.open();
+    if (!db) return;
+
+    const transaction = db.transaction([DATA_STORE, ENTRY_STORE], 'readwrite');
+    transaction.objectStore(DATA_STORE).clear();
+    transaction.objectStore(ENTRY_STORE).clear();
+    await whenComplete(transaction);
+  }
+
+  /**
+   * Open the database once, resolving to null if IndexedDB is unavailable
+   */
+  private open(): Promise<IDBDatabase | null> {
+    if (!this.db) {
+      this.db = new Promise<IDBDatabase | null>((resolve) => {
+        if (typeof indexedDB === 'undefined') {
+          resolve(null);
+          return;
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          Array.from(db.objectStoreNames).forEach((name) => db.deleteObjectStore(name));
+          db.createObjectStore(DATA_STORE);
+          db.createObjectStore(ENTRY_STORE, { keyPath: 'key' })
+            .createIndex(LAST_ACCESS_INDEX, LAST_ACCESS_INDEX);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          console.warn('Could not open the data cache:', request.error);
+          resolve(null);
+        };
+      });
+    }
+    return this.db;
+  }
+
+  /**
+   * Read a value and mark it as recently used
+   * The read is read-only so concurrent reads don't wait for each other;
+   * the access time is updated in a separate write that is not awaited.
+   */
+  private async get<T>(key: string): Promise<T | null> {
+    try {
+      const db = await this.open();
+      if (!db) return null;
+
+      const value = await toPromise<T | undefined>(
+        db.transaction(DATA_STORE).objectStore(DATA_STORE).get(key)
+      );
+      if (value === undefined) return null;
+
+      this.touch(db, key).catch((error) => {
+        console.warn('Could not update the data cache:', error);
+      });
+      return value;
+    } catch (error) {
+      console.warn('Could not read from the data cache:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Set the access time of an entry to now
+   */
+  private async touch(db: IDBDatabase, key: string): Promise<void> {
+    const transaction = db.transaction(ENTRY_STORE, 'readwrite');
+    const entries = transaction.objectStore(ENTRY_STORE);
+    const entry = await toPromise<CacheEntry | undefined>(entries.get(key));
+    if (entry) {
+      entries.put({ ...entry, lastAccess: Date.now() });
+    }
+    await whenComplete(transaction);
+  }
+
+  /**
+   * Write a value, then evict old entries if the budget is exceeded
+   * Values larger than the whole budget are not stored.
+   */
+  private async put(key: string, value: unknown, size: number): Promise<void> {
+    if (size > this.maxBytes) return;
+
+    try {
+      const db = await this.open();
+      if (!db) return;
+
+      const transaction = db.transaction([DATA_STORE, ENTRY_STORE], 'readwrite');
+      transaction.objectStore(DATA_STORE).put(value, key);
+      transaction.objectStore(ENTRY_STORE).put({ key, size, lastAccess: Date.now() });
+      await whenComplete(transaction);
+
+      await this.evict(db);
+    } catch (error) {
+      console.warn('Could not write to the data cache:', error);
+    }
+  }
+
+  /**
+   * Delete the least recently used entries until the cache fits its budget
+   */
+  private async evict(db: IDBDatabase): Promise<void> {
+    const transaction = db.transaction([DATA_STORE, ENTRY_STORE], 'readwrite');
+    const entries = transaction.objectStore(ENTRY_STORE);
+    const data = transaction.objectStore(DATA_STORE);
+
+    // Oldest first
+    const all = await toPromise<CacheEntry[]>(entries.index(LAST_ACCESS_INDEX).getAll());
+    let total = all.reduce((sum, entry) => sum + entry.size, 0);
+    for (const entry of all) {
+      if (total <= this.maxBytes) break;
+      entries.delete(entry.key);
+      data.delete(entry.key);
+      total -= entry.size;
+    }
+
+    await whenComplete(transaction);
+  }
+}
+
+// Singleton instance
+let dataCache: DataCache | null = null;
+
+/**
+ * Get the shared data cache
+ */
+export function getDataCache(): DataCache {
+  if (!dataCache) {
+    dataCache = new DataCache();
+  }
+  return dataCache;
+}
@@ -0,0 +1,75 @@
+import BaseElevationLayer from '@arcgis/core/layers/BaseElevationLayer';
+import { WEB_MERCATOR_WKID } from '../config/constants';
+import { loadProjection } from '../utils/projectionUtils';
+import type { LocalDem } from './LocalDem';
+import type { GroundLayer } from './TerrainProvider';
+
+// Size of the tiles filled without the fallback layer (elevation tiles share edge rows)
+const TILE_SIZE = 257;
+
+// Elevation of tiles outside the DEM when the fallback layer is unavailable
+const NO_DATA_VALUE = -3.4e38;
+
+/**
+ * Create a ground elevation layer from a local DEM
+ * Tiles are taken from the fallback layer (e.g. the terrain provider's
+ * ground) and overwritten with the DEM where it has data. Without a usable
+ * fallback (e.g. offline) only the DEM area has elevations.
+ */
+export async function createDemElevationLayer(
+  dem: LocalDem,
+  fallback: GroundLayer | null
+): Promise<BaseElevationLayer> {
+  await loadProjection();
+  const hasFallback = fallback !== null && await fallback.load().then(
+    () => true,
+    (error) => {
+      console.warn('Fallback elevation layer unavailable, using the DEM only:', error);
+      return false;
+    }
+  );
+
+  const layer = new BaseElevationLayer({
+    title: `DEM ${dem.url.split('/').pop()}`,
+    listMode: 'hide',
+  });
+  const bounds = dem.getSceneExtent();
+
+  layer.fetchTile = async (level, row, column, options) => {
+    const noDataValue = options?.noDataValue ?? NO_DATA_VALUE;
+    const tile = hasFallback
+      ? await fallback!.fetchTile(level, row, column, { noDataValue, signal: options?.signal })
+      : {
+        values: new Float32Array(TILE_SIZE * TILE_SIZE).fill(noDataValue),
+        width: TILE_SIZE,
+        height: TILE_SIZE,
+        noDataValue,
+      };
+
+    const [xmin, ymin, xmax, ymax] = layer.getTileBounds(level, row, column);
+    if (xmax < bounds.xmin || xmin > bounds.xmax || ymax < bounds.ymin || ymin > bounds.ymax) {
+      return tile;
+    }
+
+    // Tile pixels lie on the tile edges, rows from top to bottom
+    const { width, height } = tile;
+    const points: [number, number][] = [];
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        points.push([
+          xmin + ((xmax - xmin) * x) / (width - 1),
+          ymax - ((ymax - ymin) * y) / (height - 1),
+        ]);
+      }
+    }
+
+    dem.sample(points, WEB_MERCATOR_WKID).forEach((elevation, i) => {
+      if (!isNaN(elevation)) {
+        tile.values[i] = elevation;
+      }
+    });
+    return tile;
+  };
+
+  return layer;
+}
@@ -1,115 +1,285 @@
-import ElevationLayer from '@arcgis/core/layers/ElevationLayer';
-import Multipoint from '@arcgis/core/geometry/Multipoint';
-import type { ExtentData, GridData } from '../config/types';
-import { ELEVATION_SERVICE_URL } from '../config/constants';
+import type BaseElevationLayer from '@arcgis/core/layers/BaseElevationLayer';
+import type ImageryTileLayer from '@arcgis/core/layers/ImageryTileLayer';
+import type { ExtentData, GridData, TerrainAnalysisConfig, TerrainProduct } from '../config/types';
+import { ELEVATION_RETRY, ELEVATION_SERVICE_URL, WEB_MERCATOR_WKID } from '../config/constants';
+import { loadProjection, projectPoints } from '../utils/projectionUtils';
+import { fillGridGaps, fillLineGaps } from '../utils/interpolation';
+import { isAbortError, retryWithBackoff } from '../utils/asyncUtils';
+import { generateGridPoints } from './MeshGenerator';
+import { getDataCache } from './DataCache';
+import { LocalDem } from './LocalDem';
+import { createDemElevationLayer } from './DemElevationLayer';
+import type { GroundLayer, TerrainProvider } from './TerrainProvider';
+import { OnlineTerrainProvider } from './OnlineTerrainProvider';
+import { createTerrainLayer } from './TerrainAnalysis';
 
 /**
  * Service for querying ground elevations
+ * The local DEMs passed with a query take precedence (e.g. the one of the
+ * queried simulation), points outside them are sampled from
+ * the terrain provider (the World Elevation service by default). Failed
+ * provider queries are retried and then reject, unless a flat fallback
+ * elevation is set.
  */
 export class ElevationService {
-  getSlopeLayer() {
-    throw new Error("Method not implemented.");
+  private provider: TerrainProvider;
+  private dems: Map<string, Promise<LocalDem>> = new Map();
+  private demLayers: Map<LocalDem, Promise<BaseElevationLayer>> = new Map();
+  private fallbackElevation: number | null = null;
+
+  constructor(provider: TerrainProvider = new OnlineTerrainProvider(ELEVATION_SERVICE_URL)) {
+    this.provider = provider;
   }
-  private elevationLayer: ElevationLayer;
-  private isLoaded = false;
 
-  constructor() {
-    this.elevationLayer = new ElevationLayer({
-      url: ELEVATION_SERVICE_URL,
-    });
+  /**
+   * Replace the terrain provider
+   * Ground layers of DEMs are recreated, as they are filled with the provider's terrain.
+   */
+  setProvider(provider: TerrainProvider): void {
+    this.provider = provider;
+    this.demLayers.clear();
   }
 
   /**
-   * Load the elevation layer
+   * Get the terrain provider
+   */
+  getProvider(): TerrainProvider {
+    return this.provider;
+  }
+
+  /**
+   * Set the flat ground elevation (m) used where provider queries fail,
+   * null to reject instead
+   */
+  setFallbackElevation(elevation: number | null): void {
+    this.fallbackElevation = elevation;
+  }
+
+  /**
+   * Load the terrain provider
    */
   async load(): Promise<void> {
-    if (this.isLoaded) return;
-    await this.elevationLayer.load();
-    this.isLoaded = true;
+    await this.provider.load();
   }
 
   /**
-   * Get the underlying elevation layer for use in maps
+   * Get the terrain provider's ground layer for use in maps
    */
-  getLayer(): ElevationLayer {
-    return this.elevationLayer;
+  getLayer(): Promise<GroundLayer> {
+    return this.provider.getGroundLayer();
   }
 
   /**
-   * Query ground elevations for a grid of points
+   * Create a slope, aspect or curvature layer from the terrain provider's
+   * elevation raster (null if it has none)
    */
-  async queryGridElevations(
-    extent: ExtentData,
-    resolution: number
-  ): Promise<GridData> {
-    await this.load();
+  getTerrainLayer(product: TerrainProduct, config?: TerrainAnalysisConfig): ImageryTileLayer | null {
+    return createTerrainLayer(this.provider, product, config);
+  }
+
+  /**
+   * Create a slope angle layer, see getTerrainLayer
+   */
+  getSlopeLayer(config?: TerrainAnalysisConfig): ImageryTileLayer | null {
+    return this.getTerrainLayer('slope', config);
+  }
 
-    const xStep = (extent.xmax - extent.xmin) / (resolution - 1);
-    const yStep = (extent.ymax - extent.ymin) / (resolution - 1);
+  /**
+   * Load a DEM GeoTIFF once, to be passed to the queries using it
+   * @param fallbackWkid - Spatial reference of files without GeoKeys
+   */
+  loadDem(url: string, fallbackWkid: number, signal?: AbortSignal): Promise<LocalDem> {
+    if (!this.dems.has(url)) {
+      const loading = LocalDem.load(url, fallbackWkid, signal);
+      // A failed or cancelled load can be retried
+      loading.catch(() => this.dems.delete(url));
+      this.dems.set(url, loading);
+    }
+    return this.dems.get(url)!;
+  }
 
-    const points: [number, number][] = [];
-    for (let y = 0; y < resolution; y++) {
-      for (let x = 0; x < resolution; x++) {
-        const px = extent.xmin + x * xStep;
-        const py = extent.ymax - y * yStep;
-        points.push([px, py]);
-      }
+  /**
+   * Get a ground layer showing a DEM, filled with the provider's terrain
+   * outside of it (created once per DEM)
+   */
+  getDemLayer(dem: LocalDem): Promise<BaseElevationLayer> {
+    if (!this.demLayers.has(dem)) {
+      this.demLayers.set(
+        dem,
+        this.provider.getGroundLayer().then((ground) => createDemElevationLayer(dem, ground))
+      );
     }
+    return this.demLayers.get(dem)!;
+  }
 
-    const elevations = new Float64Array(points.length);
+  /**
+   * Query ground elevations at the centers of width × height grid cells
+   * The grid is laid out in the extent's spatial reference; its points are
+   * returned in the scene's spatial reference (Web Mercator). Elevations are
+   * sampled from the given local DEMs, the rest is taken from the persistent cache
+   * if available; successful provider queries are stored there. Cells
+   * without data are interpolated from their neighbours. If the provider
+   * fails, the flat fallback is used and its error returned with the grid.
+   */
+  async queryGridElevations(
+    extent: ExtentData,
+    width: number,
+    height: number,
+    dems: LocalDem[],
+    signal?: AbortSignal
+  ): Promise<GridData> {
+    const { points } = generateGridPoints(extent, width, height);
 
-    try {
-      const multipoint = new Multipoint({
-        points: points,
-        spatialReference: extent.spatialReference,
-      });
-
-      const elevResult = await this.elevationLayer.queryElevation(multipoint, {
-        demResolution: 'finest-contiguous',
-      });
-
-      if (elevResult?.geometry && 'points' in elevResult.geometry) {
-        const resultPoints = elevResult.geometry.points as number[][];
-        resultPoints.forEach((p: number[], i: number) => {
-          elevations[i] = p[2] || 0;
-        });
+    await loadProjection();
+    const scenePoints = projectPoints(points, extent.spatialReference.wkid, WEB_MERCATOR_WKID);
+    const spatialReference = { wkid: WEB_MERCATOR_WKID };
+
+    const elevations = sampleDems(dems, scenePoints, WEB_MERCATOR_WKID);
+    let elevationError: Error | undefined;
+    if (elevations.some(isNaN)) {
+      const cache = getDataCache();
+      const { cacheKey } = this.provider;
+      const cached = cacheKey
+        ? await cache.getElevations(cacheKey, extent, width, height)
+        : null;
+      try {
+        const providerElevations = cached
+          ?? await this.queryElevations(scenePoints, WEB_MERCATOR_WKID, signal);
+        fillMissing(elevations, providerElevations);
+        if (!fillGridGaps(elevations, width, height)) {
+          throw new Error(`${this.provider.name} has no ground elevations for the extent`);
+        }
+        if (!cached && cacheKey) {
+          // Not awaited, writing must not hold up loading
+          cache.putElevations(cacheKey, extent, width, height, providerElevations);
+        }
+      } catch (error) {
+        elevationError = this.applyFallback(elevations, error, signal);
       }
-    } catch (error) {
-      console.warn('Could not query elevation:', error);
-      // Fill with zeros on error
-      elevations.fill(0);
     }
 
     return {
-      points,
+      points: scenePoints,
       elevations,
-      resolution,
+      width,
+      height,
+      spatialReference,
+      elevationError,
     };
   }
 
   /**
-   * Query elevation for a single point
+   * Query ground elevations for arbitrary points (e.g. along a profile path),
+   * sampled from the given local DEMs first
+   * Points without data are interpolated along the path. Rejects if the
+   * provider fails and no flat fallback is set.
    */
-  async queryPointElevation(x: number, y: number, wkid: number): Promise<number> {
-    await this.load();
-
-    try {
-      const multipoint = new Multipoint({
-        points: [[x, y]],
-        spatialReference: { wkid },
-      });
+  async queryPathElevations(
+    points: [number, number][],
+    wkid: number,
+    dems: LocalDem[],
+    signal?: AbortSignal
+  ): Promise<Float64Array> {
+    await loadProjection();
+    const elevations = sampleDems(dems, points, wkid);
+    if (elevations.some(isNaN)) {
+      try {
+        fillMissing(elevations, await this.queryElevations(points, wkid, signal));
+        if (!fillLineGaps(elevations)) {
+          throw new Error(`${this.provider.name} has no ground elevations along the path`);
+        }
+      } catch (error) {
+        this.applyFallback(elevations, error, signal);
+      }
+    }
+    return elevations;
+  }
 
-      const elevResult = await this.elevationLayer.queryElevation(multipoint);
+  /**
+   * Query elevation for a single point, rejects like queryPathElevations
+   */
+  async queryPointElevation(
+    x: number,
+    y: number,
+    wkid: number,
+    dems: LocalDem[],
+    signal?: AbortSignal
+  ): Promise<number> {
+    const [elevation] = await this.queryPathElevations([[x, y]], wkid, dems, signal);
+    return elevation;
+  }
 
-      if (elevResult?.geometry && 'points' in elevResult.geometry) {
-        const resultPoints = elevResult.geometry.points as number[][];
-        return resultPoints[0]?.[2] || 0;
-      }
+  /**
+   * Sample elevations from the terrain provider, retrying failed queries
+   * with backoff (e.g. an unreachable source)
+   */
+  private async queryElevations(
+    points: [number, number][],
+    wkid: number,
+    signal?: AbortSignal
+  ): Promise<Float64Array> {
+    try {
+      return await retryWithBackoff(
+        () => this.provider.sampleElevations(points, wkid, signal),
+        ELEVATION_RETRY.attempts,
+        ELEVATION_RETRY.baseDelay,
+        signal
+      );
     } catch (error) {
-      console.warn('Could not query elevation:', error);
+      if (signal?.aborted || isAbortError(error)) throw error;
+      throw new Error(
+        `Ground elevations unavailable from ${this.provider.name}: ${(error as Error).message}`
+      );
+    }
+  }
+
+  /**
+   * Set the missing elevations to the flat fallback and return the error
+   * Rethrows it if no fallback is set or the query was cancelled.
+   */
+  private applyFallback(elevations: Float64Array, error: unknown, signal?: AbortSignal): Error {
+    const elevation = this.fallbackElevation;
+    if (elevation === null || signal?.aborted || isAbortError(error)) {
+      throw error;
     }
+    console.warn(`Using flat ground at ${elevation} m:`, error);
+    elevations.forEach((value, i) => {
+      if (isNaN(value)) elevations[i] = elevation;
+    });
+    return error as Error;
+  }
+}
+
+/**
+ * Sample local DEMs in order, NaN where none of them has data
+ */
+function sampleDems(dems: LocalDem[], points: [number, number][], wkid: number): Float64Array {
+  const elevations = new Float64Array(points.length).fill(NaN);
+
+  for (const dem of dems) {
+    const missing = elevations.reduce<number[]>((indices, value, i) => {
+      if (isNaN(value)) indices.push(i);
+      return indices;
+    }, []);
+    if (missing.length === 0) break;
 
-    return 0;
+    const samples = dem.sample(missing.map((i) => points[i]), wkid);
+    missing.forEach((index, i) => {
+      elevations[index] = samples[i];
+    });
+  }
+
+  return elevations;
+}
+
+/**
+ * Fill the NaN entries of a grid from another one where it has data
+ */
+function fillMissing(elevations: Float64Array, source: Float64Array): void {
+  for (let i = 0; i < elevations.length; i++) {
+    if (isNaN(elevations[i])) {
+      elevations[i] = source[i];
+    }
   }
 }
 
@@ -0,0 +1,277 @@
+import type Graphic from '@arcgis/core/Graphic';
+import type SceneView from '@arcgis/core/views/SceneView';
+import type {
+  EnsembleConfig,
+  ExtentData,
+  GridData,
+  ResultVariableConfig,
+} from '../config/types';
+import {
+  DEFAULT_EXCEEDANCE_THRESHOLDS,
+  DEFAULT_TERRAIN_CONFIG,
+  EXTENT_TOLERANCE,
+  FLOW_HEIGHT_VARIABLE_ID,
+  PROBABILITY_COLOR_STOPS,
+} from '../config/constants';
+import type { AvalancheSimulation } from './AvalancheSimulation';
+import type { LocalDem } from './LocalDem';
+import { createMesh, createMeshGraphic } from './MeshGenerator';
+import { getElevationService } from './ElevationService';
+import {
+  computeExceedanceProbability,
+  getCellArea,
+  getGridSize,
+  getPointsExtent,
+  isSameExtent,
+  resampleToExtent,
+  unionExtents,
+} from '../utils/gridUtils';
+
+/**
+ * Per-cell probability that a result variable exceeds a threshold across
+ * the members of an ensemble, based on each member's maximum over time
+ */
+export class EnsembleAnalysis {
+  private config: EnsembleConfig;
+  private members: AvalancheSimulation[];
+  private view: SceneView | null = null;
+  private extent: ExtentData | null = null;
+  private gridData: GridData | null = null;
+  private sameGrid = true;
+  private variableId: string = FLOW_HEIGHT_VARIABLE_ID;
+  private threshold: number = DEFAULT_EXCEEDANCE_THRESHOLDS[FLOW_HEIGHT_VARIABLE_ID];
+  private probabilities: Float32Array | null = null;
+  private graphic: Graphic | null = null;
+  private warnings: string[] = [];
+
+  constructor(config: EnsembleConfig, members: AvalancheSimulation[]) {
+    this.config = config;
+    this.members = members;
+  }
+
+  /**
+   * Determine the common grid of all members and query its ground elevations
+   * Mismatched extents are resampled onto their union, with a warning.
+   */
+  async initialize(view: SceneView): Promise<void> {
+    this.view = view;
+
+    const grids = this.members.map((member) => {
+      const extent = member.getGridExtent();
+      const gridData = member.getGridData();
+      if (!extent || !gridData) {
+        throw new Error(`No frames loaded for ensemble member ${member.getConfig().name}`);
+      }
+      return { extent, width: gridData.width, height: gridData.height };
+    });
+
+    const [first, ...others] = grids;
+    if (others.some(({ extent }) => extent.spatialReference.wkid !== first.extent.spatialReference.wkid)) {
+      throw new Error(`Members of ${this.config.name} use different spatial references`);
+    }
+
+    const cellWidth = (first.extent.xmax - first.extent.xmin) / first.width;
+    const cellHeight = (first.extent.ymax - first.extent.ymin) / first.height;
+    this.sameGrid = others.every((grid) =>
+      grid.width === first.width &&
+      grid.height === first.height &&
+      isSameExtent(first.extent, grid.extent, cellWidth * EXTENT_TOLERANCE)
+    );
+
+    if (this.sameGrid) {
+      this.extent = first.extent;
+      this.gridData = this.members[0].getGridData();
+    } else {
+      // Common grid with the first member's cell size, within the cell budget
+      this.extent = others.map(({ extent }) => extent).reduce(unionExtents, first.extent);
+      const [width, height] = getGridSize(
+        (this.extent.xmax - this.extent.xmin) / cellWidth,
+        (this.extent.ymax - this.extent.ymin) / cellHeight,
+        this.members[0].getMaxGridCells()
+      );
+      this.warnings.push(
+        `Member extents of ${this.config.name} differ, all members were resampled ` +
+        `onto a common ${width}×${height} grid`
+      );
+      const dems = this.members
+        .map((member) => member.getDem())
+        .filter((dem): dem is LocalDem => dem !== null);
+      this.gridData = await getElevationService().queryGridElevations(this.extent, width, height, dems);
+    }
+
+    this.variableId = this.config.variable ?? FLOW_HEIGHT_VARIABLE_ID;
+    this.threshold = this.config.threshold ?? DEFAULT_EXCEEDANCE_THRESHOLDS[this.variableId] ?? 0;
+  }
+
+  /**
+   * Get the ensemble configuration
+   */
+  getConfig(): EnsembleConfig {
+    return this.config;
+  }
+
+  /**
+   * Get the member simulations
+   */
+  getMembers(): AvalancheSimulation[] {
+    return [...this.members];
+  }
+
+  /**
+   * Get warnings raised while building the ensemble grid
+   */
+  getWarnings(): string[] {
+    return [...this.warnings];
+  }
+
+  /**
+   * Get the result variables provided by every member
+   */
+  getVariables(): ResultVariableConfig[] {
+    const [first, ...others] = this.members;
+    if (!first) return [];
+
+    return first.getVariables().filter((variable) =>
+      others.every((member) => member.getVariables().some((v) => v.id === variable.id))
+    );
+  }
+
+  /**
+   * Get the result variable evaluated for exceedance
+   */
+  getVariable(): ResultVariableConfig | undefined {
+    return this.getVariables().find((v) => v.id === this.variableId);
+  }
+
+  /**
+   * Get the exceedance threshold (variable unit)
+   */
+  getThreshold(): number {
+    return this.threshold;
+  }
+
+  /**
+   * Get the per-cell probability of exceedance (0-1) on the common grid
+   */
+  getProbabilities(): Float32Array | null {
+    return this.probabilities;
+  }
+
+  /**
+   * Get the extent of the common grid in the scene's spatial reference
+   */
+  getExtent(): ExtentData | null {
+    return this.gridData ? getPointsExtent(this.gridData) : null;
+  }
+
+  /**
+   * Get the area in m² where the probability of exceedance is at least a value
+   */
+  getAreaAbove(probability: number): number {
+    if (!this.probabilities || !this.gridData || !this.extent) return 0;
+
+    const { width, height } = this.gridData;
+    const count = this.probabilities.filter((p) => p > 0 && p >= probability).length;
+    return count * getCellArea(this.extent, width, height);
+  }
+
+  /**
+   * Compute the probability map for a variable and threshold, loading
+   * the members' variable frames if needed
+   */
+  async update(
+    variableId: string,
+    threshold: number,
+    onProgress?: (loaded: number, total: number) => void
+  ): Promise<void> {
+    if (!this.extent || !this.gridData) {
+      throw new Error('Ensemble not initialized');
+    }
+    if (!this.getVariables().some((v) => v.id === variableId)) {
+      throw new Error(`${variableId} is not available for all members of ${this.config.name}`);
+    }
+
+    const { width, height } = this.gridData;
+    const grids: Float32Array[] = [];
+    for (const member of this.members) {
+      const peak = await member.getVariablePeak(variableId, onProgress);
+      if (!peak) {
+        throw new Error(`No ${variableId} frames loaded for ${member.getConfig().name}`);
+      }
+      grids.push(
+        this.sameGrid
+          ? peak.values
+          : resampleToExtent(
+            peak.values,
+            peak.width,
+            peak.height,
+            peak.extent,
+            this.extent,
+            width,
+            height
+          )
+      );
+    }
+
+    this.variableId = variableId;
+    this.threshold = threshold;
+    this.probabilities = computeExceedanceProbability(grids, width * height, threshold);
+    this.rebuildGraphic();
+  }
+
+  /**
+   * Remove the probability map from the view
+   */
+  dispose(): void {
+    this.removeGraphic();
+    this.view = null;
+    this.gridData = null;
+    this.extent = null;
+    this.probabilities = null;
+  }
+
+  /**
+   * Build the draped probability mesh
+   */
+  private rebuildGraphic(): void {
+    this.removeGraphic();
+    if (!this.view || !this.gridData || !this.extent || !this.probabilities) return;
+
+    const { width, height } = this.gridData;
+    const nonZeroCount = this.probabilities.filter((p) => p > 0).length;
+
+    const mesh = createMesh(
+      {
+        flowHeights: this.probabilities,
+        extent: this.extent,
+        width,
+        height,
+        maxHeight: 1,
+        nonZeroCount,
+        meanHeight: 0,
+        affectedArea: 0,
+      },
+      this.gridData,
+      null,
+      { ...DEFAULT_TERRAIN_CONFIG, exaggerationFactor: 0 },
+      1,
+      0,
+      { values: this.probabilities, stops: PROBABILITY_COLOR_STOPS }
+    );
+    if (!mesh) return;
+
+    this.graphic = createMeshGraphic(mesh);
+    this.graphic.visible = true;
+    this.view.graphics.add(this.graphic);
+  }
+
+  /**
+   * Remove the probability mesh from the view
+   */
+  private removeGraphic(): void {
+    if (this.graphic && this.view) {
+      this.view.graphics.remove(this.graphic);
+    }
+    this.graphic = null;
+  }
+}
@@ -0,0 +1,57 @@
+import BaseElevationLayer from '@arcgis/core/layers/BaseElevationLayer';
+import type { GroundLayer, TerrainProvider } from './TerrainProvider';
+
+// Size of the constant elevation tiles (elevation tiles share edge rows)
+const TILE_SIZE = 257;
+
+/**
+ * Flat terrain at a constant elevation, needs no data at all
+ * Meant for deterministic tests and as a last resort without any DEM; it
+ * provides no raster derivatives.
+ */
+export class FlatTerrainProvider implements TerrainProvider {
+  readonly name = 'Flat terrain';
+  readonly cacheKey = null;
+  private elevation: number;
+  private groundLayer: BaseElevationLayer | null = null;
+
+  constructor(elevation: number = 0) {
+    this.elevation = elevation;
+  }
+
+  /**
+   * Nothing to load
+   */
+  async load(): Promise<void> {}
+
+  /**
+   * Return the constant elevation for every point
+   */
+  async sampleElevations(points: [number, number][]): Promise<Float64Array> {
+    return new Float64Array(points.length).fill(this.elevation);
+  }
+
+  /**
+   * Get a ground layer with constant elevation tiles
+   */
+  async getGroundLayer(): Promise<GroundLayer> {
+    if (!this.groundLayer) {
+      const layer = new BaseElevationLayer({ title: this.name, listMode: 'hide' });
+      layer.fetchTile = async (_level, _row, _column, options) => ({
+        values: new Float32Array(TILE_SIZE * TILE_SIZE).fill(this.elevation),
+        width: TILE_SIZE,
+        height: TILE_SIZE,
+        noDataValue: options?.noDataValue ?? NaN,
+      });
+      this.groundLayer = layer;
+    }
+    return this.groundLayer;
+  }
+
+  /**
+   * Raster derivatives of a flat surface are empty
+   */
+  createRasterLayer(): null {
+    return null;
+  }
+}
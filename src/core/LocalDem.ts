@@ -0,0 +1,124 @@
+import type { ExtentData } from '../config/types';
+import { WEB_MERCATOR_WKID } from '../config/constants';
+import { loadProjection, projectPoints } from '../utils/projectionUtils';
+import { toGridCoordinates } from '../utils/gridUtils';
+import { bilinearInterpolate } from '../utils/interpolation';
+import { loadRaster } from './RasterDecoder';
+
+// Points per extent edge projected to find the DEM's bounds in the scene
+const EDGE_SAMPLES = 8;
+
+/**
+ * Digital elevation model read from a GeoTIFF, sampled bilinearly
+ * No-data cells are NaN, so samples next to them are NaN as well.
+ */
+export class LocalDem {
+  readonly url: string;
+  private values: Float32Array;
+  private width: number;
+  private height: number;
+  private extent: ExtentData;
+  private cellSize: number;
+  private sceneExtent: ExtentData;
+
+  private constructor(
+    url: string,
+    values: Float32Array,
+    width: number,
+    height: number,
+    extent: ExtentData,
+    cellSize: number,
+    sceneExtent: ExtentData
+  ) {
+    this.url = url;
+    this.values = values;
+    this.width = width;
+    this.height = height;
+    this.extent = extent;
+    this.cellSize = cellSize;
+    this.sceneExtent = sceneExtent;
+  }
+
+  /**
+   * Fetch and decode a DEM GeoTIFF
+   * The spatial reference is read from the GeoKeys, files without them are
+   * assumed to be in fallbackWkid.
+   */
+  static async load(url: string, fallbackWkid: number, signal?: AbortSignal): Promise<LocalDem> {
+    const raster = await loadRaster(url, 'geotiff', fallbackWkid, signal);
+    const { width, height, extent, noDataValue } = raster;
+
+    const values = new Float32Array(raster.values.length);
+    for (let i = 0; i < values.length; i++) {
+      const value = raster.values[i];
+      values[i] = value === noDataValue ? NaN : value;
+    }
+
+    // Bounds in the scene's spatial reference, from points along the edges
+    await loadProjection();
+    const edge: [number, number][] = [];
+    for (let i = 0; i <= EDGE_SAMPLES; i++) {
+      const x = extent.xmin + ((extent.xmax - extent.xmin) * i) / EDGE_SAMPLES;
+      const y = extent.ymin + ((extent.ymax - extent.ymin) * i) / EDGE_SAMPLES;
+      edge.push([x, extent.ymin], [x, extent.ymax], [extent.xmin, y], [extent.xmax, y]);
+    }
+    const projected = projectPoints(edge, extent.spatialReference.wkid, WEB_MERCATOR_WKID);
+    const sceneExtent: ExtentData = {
+      xmin: Math.min(...projected.map(([x]) => x)),
+      ymin: Math.min(...projected.map(([, y]) => y)),
+      xmax: Math.max(...projected.map(([x]) => x)),
+      ymax: Math.max(...projected.map(([, y]) => y)),
+      spatialReference: { wkid: WEB_MERCATOR_WKID },
+    };
+
+    return new LocalDem(
+      url,
+      values,
+      width,
+      height,
+      extent,
+      Math.min(raster.cellWidth, raster.cellHeight),
+      sceneExtent
+    );
+  }
+
+  /**
+   * Get the extent of the DEM in its own spatial reference
+   */
+  getExtent(): ExtentData {
+    return this.extent;
+  }
+
+  /**
+   * Get the bounding extent of the DEM in the scene's spatial reference
+   */
+  getSceneExtent(): ExtentData {
+    return this.sceneExtent;
+  }
+
+  /**
+   * Get the cell size in the DEM's own units (m for metric projections)
+   */
+  getResolution(): number {
+    return this.cellSize;
+  }
+
+  /**
+   * Sample elevations at points given in a spatial reference
+   * Points outside the DEM or next to no-data cells are NaN; the projection
+   * engine must be loaded (see loadProjection) for other spatial references.
+   */
+  sample(points: [number, number][], wkid: number): Float64Array {
+    const { xmin, ymin, xmax, ymax, spatialReference } = this.extent;
+    const local = projectPoints(points, wkid, spatialReference.wkid);
+    const elevations = new Float64Array(points.length).fill(NaN);
+
+    local.forEach(([x, y], i) => {
+      if (x < xmin || x > xmax || y < ymin || y > ymax) return;
+      const [normX, normY] = toGridCoordinates(this.extent, this.width, this.height, x, y);
+      elevations[i] = bilinearInterpolate(this.values, this.width, this.height, normX, normY);
+    });
+
+    return elevations;
+  }
+}
@@ -0,0 +1,202 @@
+import type { AvalancheConfig, FrameEntry, RasterFormat, ResultVariableConfig } from '../config/types';
+
+// File extensions of the supported frame formats
+const FORMAT_EXTENSIONS: Record<string, RasterFormat> = {
+  '.tif': 'geotiff',
+  '.tiff': 'geotiff',
+  '.asc': 'ascii-grid',
+  '.xyz': 'xyz',
+  '.txt': 'xyz',
+};
+
+// Units of the RAMMS result variables, keyed by variable id
+const VARIABLE_UNITS: Record<string, string> = {
+  velocity: 'm/s',
+  pressure: 'kPa',
+  momentum: 'm²/s',
+};
+
+// Time step file names: prefix, time (last number) and a suffix without digits
+const FRAME_NAME_PATTERN = /^(.*?)(\d+(?:\.\d+)?)(\D*)$/;
+
+// Prefixes of flow height series (e.g. Diepen_1s_Flowheight_)
+const FLOW_HEIGHT_PATTERN = /flow[\s_-]*height/i;
+
+/**
+ * Time step file of a dropped series
+ */
+interface LocalFrame {
+  prefix: string;
+  suffix: string;
+  time: number;
+  format: RasterFormat;
+  file: File;
+}
+
+let localConfigCount = 0;
+
+/**
+ * Collect the files of a drop, descending into dropped folders
+ * The name of the first dropped folder is returned as well (null if only
+ * files were dropped).
+ */
+export async function readDroppedFiles(
+  dataTransfer: DataTransfer
+): Promise<{ files: File[]; folderName: string | null }> {
+  const entries = Array.from(dataTransfer.items)
+    .map((item) => item.webkitGetAsEntry())
+    .filter((entry): entry is FileSystemEntry => entry !== null);
+
+  // Browsers without the entries API only provide the top-level files
+  if (entries.length === 0) {
+    return { files: Array.from(dataTransfer.files), folderName: null };
+  }
+
+  const files: File[] = [];
+  for (const entry of entries) {
+    files.push(...(await readEntry(entry)));
+  }
+
+  const folder = entries.find((entry) => entry.isDirectory);
+  return { files, folderName: folder?.name ?? null };
+}
+
+/**
+ * Read all files below a file system entry
+ */
+async function readEntry(entry: FileSystemEntry): Promise<File[]> {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) =>
+      (entry as FileSystemFileEntry).file(resolve, reject)
+    );
+    return [file];
+  }
+
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  const files: File[] = [];
+
+  // readEntries returns the directory content in batches until empty
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) =>
+      reader.readEntries(resolve, reject)
+    );
+    if (batch.length === 0) break;
+    for (const child of batch) {
+      files.push(...(await readEntry(child)));
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Split a time step file name into prefix, time and suffix
+ * e.g. Diepen_1s_Flowheight_12.00s.tif -> Diepen_1s_Flowheight_, 12, s.tif
+ */
+function parseFrameName(file: File): LocalFrame | null {
+  const name = file.name;
+  const dot = name.lastIndexOf('.');
+  const format = dot >= 0 ? FORMAT_EXTENSIONS[name.slice(dot).toLowerCase()] : undefined;
+  if (!format) return null;
+
+  const match = FRAME_NAME_PATTERN.exec(name.slice(0, dot));
+  if (!match) return null;
+
+  return {
+    prefix: match[1],
+    suffix: match[3] + name.slice(dot),
+    time: parseFloat(match[2]),
+    format,
+    file,
+  };
+}
+
+/**
+ * Get the label of a series from its prefix (last word, e.g. Velocity)
+ */
+function getSeriesLabel(prefix: string): string {
+  const words = prefix.split(/[\s_-]+/).filter((word) => /[a-z]/i.test(word));
+  return words[words.length - 1] ?? prefix;
+}
+
+/**
+ * Create an in-memory avalanche config from local time step files
+ * Files are grouped into series by prefix and suffix. The flow height series
+ * (by name, otherwise the longest one) defines the time steps; the other
+ * series of the same format become result variables. Each series lists its
+ * files explicitly, so irregular or gapped time steps load as dropped.
+ * Files that do not look like time steps are ignored.
+ * @param name - Display name, defaults to the flow height prefix without the variable
+ */
+export function createLocalConfig(files: File[], name?: string): AvalancheConfig {
+  const series = new Map<string, LocalFrame[]>();
+  for (const file of files) {
+    const frame = parseFrameName(file);
+    if (!frame) continue;
+
+    const key = `${frame.prefix}|${frame.suffix}`;
+    series.set(key, [...(series.get(key) ?? []), frame]);
+  }
+
+  const groups = Array.from(series.values()).sort((a, b) => b.length - a.length);
+  const flowHeight = groups.find(([frame]) => FLOW_HEIGHT_PATTERN.test(frame.prefix)) ?? groups[0];
+  if (!flowHeight) {
+    throw new Error('No time step files found (expected e.g. Name_Flowheight_12.00s.tif)');
+  }
+
+  const { prefix, suffix, format } = flowHeight[0];
+  const times = Array.from(new Set(flowHeight.map((frame) => frame.time))).sort((a, b) => a - b);
+  let timeInterval = Infinity;
+  for (let i = 1; i < times.length; i++) {
+    timeInterval = Math.min(timeInterval, times[i] - times[i - 1]);
+  }
+
+  // Files are keyed by their name, the frame lists refer to them
+  const localFiles: Record<string, File> = {};
+  const addFiles = (frames: LocalFrame[]): FrameEntry[] => {
+    const entries = new Map<number, FrameEntry>();
+    frames.forEach((frame) => {
+      localFiles[frame.file.name] = frame.file;
+      entries.set(frame.time, { time: frame.time, file: frame.file.name });
+    });
+    return Array.from(entries.values()).sort((a, b) => a.time - b.time);
+  };
+  const flowHeightFrames = addFiles(flowHeight);
+
+  const variables: ResultVariableConfig[] = [];
+  for (const frames of groups) {
+    const [first] = frames;
+    if (frames === flowHeight || first.format !== format) continue;
+
+    const label = getSeriesLabel(first.prefix);
+    const id = label.toLowerCase();
+    if (variables.some((v) => v.id === id)) continue;
+
+    variables.push({
+      id,
+      name: label,
+      prefix: first.prefix,
+      suffix: first.suffix,
+      unit: VARIABLE_UNITS[id] ?? '',
+      frames: addFiles(frames),
+    });
+  }
+
+  localConfigCount++;
+  const baseName = prefix.replace(FLOW_HEIGHT_PATTERN, '').replace(/[\s_-]+$/, '');
+
+  return {
+    id: `local-${localConfigCount}`,
+    name: name ?? (baseName || `Local run ${localConfigCount}`),
+    folder: '',
+    prefix,
+    suffix,
+    timeInterval: isFinite(timeInterval) ? timeInterval : 1,
+    timeRange: [times[0], times[times.length - 1]],
+    frames: flowHeightFrames,
+    description: `Local files (${Object.keys(localFiles).length})`,
+    variables,
+    format,
+    files: localFiles,
+  };
+}
@@ -0,0 +1,78 @@
+import ImageryTileLayer from '@arcgis/core/layers/ImageryTileLayer';
+import type RasterFunction from '@arcgis/core/layers/support/RasterFunction';
+import { LocalDem } from './LocalDem';
+import { createDemElevationLayer } from './DemElevationLayer';
+import { loadProjection } from '../utils/projectionUtils';
+import type { GroundLayer, RasterLayerProperties, TerrainProvider } from './TerrainProvider';
+
+/**
+ * Terrain from a DEM GeoTIFF served with the app, no network access beyond
+ * the app's own origin is needed
+ * Raster derivatives read the file as an image layer, which requires a Cloud
+ * Optimized GeoTIFF.
+ */
+export class LocalTerrainProvider implements TerrainProvider {
+  readonly name: string;
+  readonly cacheKey = null;
+  private url: string;
+  private fallbackWkid: number;
+  private dem: Promise<LocalDem> | null = null;
+  private groundLayer: Promise<GroundLayer> | null = null;
+
+  /**
+   * @param fallbackWkid - Spatial reference of a DEM without GeoKeys
+   */
+  constructor(url: string, fallbackWkid: number) {
+    this.url = url;
+    this.fallbackWkid = fallbackWkid;
+    this.name = url.split('/').pop() ?? url;
+  }
+
+  /**
+   * Fetch and decode the DEM once
+   */
+  async load(): Promise<void> {
+    await this.getDem();
+  }
+
+  /**
+   * Sample the DEM, NaN outside of it
+   */
+  async sampleElevations(points: [number, number][], wkid: number): Promise<Float64Array> {
+    const dem = await this.getDem();
+    await loadProjection();
+    return dem.sample(points, wkid);
+  }
+
+  /**
+   * Get a ground layer showing only the DEM
+   */
+  getGroundLayer(): Promise<GroundLayer> {
+    this.groundLayer ??= this.getDem().then((dem) => createDemElevationLayer(dem, null));
+    return this.groundLayer;
+  }
+
+  /**
+   * Create an image layer of the DEM with a client-side raster function
+   */
+  createRasterLayer(rasterFunction: RasterFunction, properties: RasterLayerProperties): ImageryTileLayer {
+    return new ImageryTileLayer({
+      url: new URL(this.url, document.baseURI).href,
+      rasterFunction,
+      ...properties,
+    });
+  }
+
+  /**
+   * Load the DEM, a failed load is retried on the next call
+   */
+  private getDem(): Promise<LocalDem> {
+    if (!this.dem) {
+      this.dem = LocalDem.load(this.url, this.fallbackWkid);
+      this.dem.catch(() => {
+        this.dem = null;
+      });
+    }
+    return this.dem;
+  }
+}
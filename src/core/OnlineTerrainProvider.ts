@@ -0,0 +1,74 @@
+import ElevationLayer from '@arcgis/core/layers/ElevationLayer';
+import ImageryTileLayer from '@arcgis/core/layers/ImageryTileLayer';
+import Multipoint from '@arcgis/core/geometry/Multipoint';
+import type RasterFunction from '@arcgis/core/layers/support/RasterFunction';
+import type { GroundLayer, RasterLayerProperties, TerrainProvider } from './TerrainProvider';
+
+/**
+ * Terrain from an elevation image service (e.g. ESRI World Elevation)
+ */
+export class OnlineTerrainProvider implements TerrainProvider {
+  readonly name: string;
+  readonly cacheKey: string;
+  private url: string;
+  private elevationLayer: ElevationLayer;
+
+  constructor(url: string) {
+    this.url = url;
+    this.name = url.split('/services/')[1]?.split('/')[0] ?? url;
+    this.cacheKey = url;
+    this.elevationLayer = new ElevationLayer({ url });
+  }
+
+  /**
+   * Load the elevation layer
+   * A layer whose load failed stays failed, so a new one is created to
+   * retry the service (e.g. on the retries of elevation queries).
+   */
+  async load(): Promise<void> {
+    if (this.elevationLayer.loadStatus === 'failed') {
+      this.elevationLayer = new ElevationLayer({ url: this.url });
+    }
+    await this.elevationLayer.load();
+  }
+
+  /**
+   * Query elevations at the finest resolution available for all points
+   */
+  async sampleElevations(
+    points: [number, number][],
+    wkid: number,
+    signal?: AbortSignal
+  ): Promise<Float64Array> {
+    await this.load();
+
+    const elevations = new Float64Array(points.length).fill(NaN);
+    const result = await this.elevationLayer.queryElevation(
+      new Multipoint({ points, spatialReference: { wkid } }),
+      { demResolution: 'finest-contiguous', signal }
+    );
+
+    if (result?.geometry && 'points' in result.geometry) {
+      const resultPoints = result.geometry.points as number[][];
+      resultPoints.forEach((p, i) => {
+        elevations[i] = p[2] ?? NaN;
+      });
+    }
+
+    return elevations;
+  }
+
+  /**
+   * Get the elevation layer as scene ground
+   */
+  async getGroundLayer(): Promise<GroundLayer> {
+    return this.elevationLayer;
+  }
+
+  /**
+   * Create an image layer of the service with a client-side raster function
+   */
+  createRasterLayer(rasterFunction: RasterFunction, properties: RasterLayerProperties): ImageryTileLayer {
+    return new ImageryTileLayer({ url: this.url, rasterFunction, ...properties });
+  }
+}
@@ -0,0 +1,84 @@
+import GraphicsLayer from '@arcgis/core/layers/GraphicsLayer';
+import SketchViewModel from '@arcgis/core/widgets/Sketch/SketchViewModel';
+import type Polyline from '@arcgis/core/geometry/Polyline';
+import type SceneView from '@arcgis/core/views/SceneView';
+import { PROFILE_STYLE } from '../config/constants';
+
+/**
+ * Lets the user sketch a single polyline used as profile path
+ */
+export class ProfileTool {
+  private layer: GraphicsLayer;
+  private sketchViewModel: SketchViewModel;
+  private drawing = false;
+
+  constructor(view: SceneView) {
+    this.layer = new GraphicsLayer({
+      title: 'Profile Path',
+      listMode: 'hide',
+      elevationInfo: {
+        mode: 'on-the-ground'
+      }
+    });
+    view.map?.add(this.layer);
+
+    this.sketchViewModel = new SketchViewModel({
+      view,
+      layer: this.layer,
+      polylineSymbol: {
+        type: 'simple-line',
+        color: PROFILE_STYLE.lineColor,
+        width: PROFILE_STYLE.lineWidth,
+      },
+      defaultUpdateOptions: {
+        enableZ: false,
+      },
+    });
+  }
+
+  /**
+   * Check if a path is currently being sketched
+   */
+  isDrawing(): boolean {
+    return this.drawing;
+  }
+
+  /**
+   * Start sketching a new path, replacing the previous one.
+   * Resolves with the finished polyline, or null if the sketch was cancelled.
+   */
+  draw(): Promise<Polyline | null> {
+    this.cancel();
+    this.layer.removeAll();
+    this.drawing = true;
+
+    return new Promise((resolve) => {
+      const handle = this.sketchViewModel.on('create', (event) => {
+        if (event.state === 'complete' || event.state === 'cancel') {
+          handle.remove();
+          this.drawing = false;
+          resolve(event.state === 'complete' ? (event.graphic.geometry as Polyline) : null);
+        }
+      });
+
+      this.sketchViewModel.create('polyline');
+    });
+  }
+
+  /**
+   * Cancel an active sketch
+   */
+  cancel(): void {
+    if (this.drawing) {
+      this.sketchViewModel.cancel();
+    }
+  }
+
+  /**
+   * Remove the sketched path
+   */
+  clear(): void {
+    this.cancel();
+    this.layer.removeAll();
+  }
+}
@@ -0,0 +1,125 @@
+import { fromArrayBuffer, type GeoTIFFImage } from 'geotiff';
+import type { DecodedRaster, RasterFormat, ResultFrameData } from '../config/types';
+import { downsampleGrid, getGridSize, getGroundScale } from '../utils/gridUtils';
+import { parseAsciiGrid, parseXyz } from '../utils/rasterParsers';
+
+// GeoKey value marking a user-defined (non-EPSG) coordinate system
+const USER_DEFINED_GEOKEY = 32767;
+
+/**
+ * Get the EPSG code of a GeoTIFF from its projected or geographic GeoKey
+ * Falls back to the given WKID if the file has no usable GeoKeys.
+ */
+function getTiffWkid(image: GeoTIFFImage, fallbackWkid: number): number {
+  const geoKeys = image.getGeoKeys() as Record<string, number> | null;
+  const code = geoKeys?.ProjectedCSTypeGeoKey ?? geoKeys?.GeographicTypeGeoKey;
+  return code && code !== USER_DEFINED_GEOKEY ? code : fallbackWkid;
+}
+
+/**
+ * Fetch a frame file and decode it according to its format
+ * GeoTIFFs use their GeoKeys, text formats are assumed to be in fallbackWkid.
+ */
+export async function loadRaster(
+  url: string,
+  format: RasterFormat,
+  fallbackWkid: number,
+  signal?: AbortSignal
+): Promise<DecodedRaster> {
+  const response = await fetch(url, { signal });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status} for ${url}`);
+  }
+
+  // Taken from the response that is decoded, so it always matches the data
+  const validator = response.headers.get('ETag') ?? response.headers.get('Last-Modified');
+
+  if (format === 'ascii-grid') {
+    return { ...parseAsciiGrid(await response.text(), fallbackWkid), validator };
+  }
+  if (format === 'xyz') {
+    return { ...parseXyz(await response.text(), fallbackWkid), validator };
+  }
+
+  const arrayBuffer = await response.arrayBuffer();
+  const tiff = await fromArrayBuffer(arrayBuffer);
+  const image = await tiff.getImage();
+
+  const rasters = await image.readRasters({ signal });
+  const bbox = image.getBoundingBox();
+  const [resX, resY] = image.getResolution();
+
+  return {
+    values: rasters[0] as Float32Array | Float64Array | Uint8Array,
+    width: image.getWidth(),
+    height: image.getHeight(),
+    extent: {
+      xmin: bbox[0],
+      ymin: bbox[1],
+      xmax: bbox[2],
+      ymax: bbox[3],
+      spatialReference: { wkid: getTiffWkid(image, fallbackWkid) },
+    },
+    cellWidth: Math.abs(resX),
+    cellHeight: Math.abs(resY),
+    noDataValue: image.getGDALNoData() ?? undefined,
+    validator,
+  };
+}
+
+/**
+ * Load and parse a frame file, returning values on a grid of at most maxCells
+ * cells (native size if the raster fits, area-weighted downsampled otherwise)
+ */
+export async function loadResampledTiff(
+  url: string,
+  maxCells: number,
+  fallbackWkid: number,
+  format: RasterFormat,
+  signal?: AbortSignal
+): Promise<ResultFrameData> {
+  const { values: pixels, width, height, extent, cellWidth, cellHeight, noDataValue, validator } =
+    await loadRaster(url, format, fallbackWkid, signal);
+
+  // Statistics at full source resolution
+  const groundScale = getGroundScale(extent);
+  const pixelArea = cellWidth * cellHeight * groundScale * groundScale;
+  const source = new Float32Array(pixels.length);
+  let maxValue = 0;
+  let sum = 0;
+  let sourceCount = 0;
+
+  // No-data cells become NaN, they are left out when downsampling
+  for (let i = 0; i < pixels.length; i++) {
+    const raw = pixels[i];
+    if (isNaN(raw) || raw === noDataValue) {
+      source[i] = NaN;
+    } else if (raw > 0) {
+      source[i] = raw;
+      sum += raw;
+      sourceCount++;
+      if (raw > maxValue) {
+        maxValue = raw;
+      }
+    }
+  }
+
+  // Grid keeping the raster's aspect ratio (only positive values are kept)
+  const [gridWidth, gridHeight] = getGridSize(width, height, maxCells);
+  const values = gridWidth === width && gridHeight === height
+    ? source.map((value) => (isNaN(value) ? 0 : value))
+    : downsampleGrid(source, width, height, gridWidth, gridHeight);
+  const nonZeroCount = values.reduce((count, value) => (value > 0 ? count + 1 : count), 0);
+
+  return {
+    values,
+    extent,
+    width: gridWidth,
+    height: gridHeight,
+    maxValue,
+    nonZeroCount,
+    meanValue: sourceCount > 0 ? sum / sourceCount : 0,
+    affectedArea: sourceCount * pixelArea,
+    validator,
+  };
+}
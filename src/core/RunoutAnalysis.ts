@@ -0,0 +1,138 @@
+import * as webMercatorUtils from '@arcgis/core/geometry/support/webMercatorUtils';
+import type {
+  ElevatedPoint,
+  FlowHeightData,
+  FrontPosition,
+  GeoJSONPolygon,
+  GridData,
+  RunoutResult,
+} from '../config/types';
+import { RUNOUT_FLOW_THRESHOLD, WEB_MERCATOR_WKID } from '../config/constants';
+import { bilinearInterpolate } from '../utils/interpolation';
+import { getGroundScale, getPointsExtent, toGridCoordinates } from '../utils/gridUtils';
+import { projectPoints } from '../utils/projectionUtils';
+
+// Spatial reference of GeoJSON coordinates
+const WGS84_WKID = 4326;
+
+/**
+ * Check if a point lies inside a polygon ring (ray casting)
+ */
+function isInsideRing(x: number, y: number, ring: number[][]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Find the highest point of the release area on the ground grid
+ * Considers grid points inside the polygon and the polygon vertices.
+ */
+function findReleaseTop(
+  releaseArea: GeoJSONPolygon,
+  gridData: GridData,
+  frame: FlowHeightData
+): ElevatedPoint | null {
+  // Ring in the grid points' spatial reference, and in the raster's for grid lookups
+  const lngLat = releaseArea.coordinates[0] as [number, number][];
+  const gridWkid = gridData.spatialReference.wkid;
+  const ring = gridWkid === WEB_MERCATOR_WKID
+    ? lngLat.map(([lng, lat]) => webMercatorUtils.lngLatToXY(lng, lat) as [number, number])
+    : projectPoints(lngLat, WGS84_WKID, gridWkid);
+  const rasterRing = projectPoints(ring, gridWkid, frame.extent.spatialReference.wkid);
+
+  const { width, height } = gridData;
+  const elevationAt = ([x, y]: [number, number]) =>
+    bilinearInterpolate(
+      gridData.elevations,
+      width,
+      height,
+      ...toGridCoordinates(frame.extent, width, height, x, y)
+    );
+
+  let top: ElevatedPoint | null = null;
+  const consider = (x: number, y: number, z: number) => {
+    if (!top || z > top.z) {
+      top = { x, y, z };
+    }
+  };
+
+  gridData.points.forEach(([x, y], i) => {
+    if (isInsideRing(x, y, ring)) {
+      consider(x, y, gridData.elevations[i]);
+    }
+  });
+  ring.forEach(([x, y], i) => consider(x, y, elevationAt(rasterRing[i])));
+
+  return top;
+}
+
+/**
+ * Track the flow front over all frames and derive runout distance,
+ * travel angle (alpha) and front velocity
+ *
+ * Distances are horizontal, measured in a straight line from the top of the
+ * release area; the front is the flowing cell farthest from that point.
+ */
+export function analyzeRunout(
+  releaseArea: GeoJSONPolygon,
+  gridData: GridData,
+  frames: { time: number; data: FlowHeightData }[]
+): RunoutResult | null {
+  if (frames.length === 0) return null;
+
+  const releaseTop = findReleaseTop(releaseArea, gridData, frames[0].data);
+  if (!releaseTop) return null;
+
+  // Distances are measured between grid points, in the grid's spatial reference
+  const groundScale = getGroundScale(getPointsExtent(gridData));
+  const front: FrontPosition[] = [];
+  let runoutPoint: ElevatedPoint = { ...releaseTop };
+  let runoutDistance = 0;
+
+  for (const { time, data } of frames) {
+    let frontDistance = 0;
+
+    for (let i = 0; i < data.flowHeights.length; i++) {
+      if (data.flowHeights[i] < RUNOUT_FLOW_THRESHOLD) continue;
+
+      const [x, y] = gridData.points[i];
+      const distance = Math.hypot(x - releaseTop.x, y - releaseTop.y) * groundScale;
+      if (distance > frontDistance) {
+        frontDistance = distance;
+      }
+      if (distance > runoutDistance) {
+        runoutDistance = distance;
+        runoutPoint = { x, y, z: gridData.elevations[i] };
+      }
+    }
+
+    const previous = front[front.length - 1];
+    front.push({
+      time,
+      distance: frontDistance,
+      velocity: previous && time > previous.time
+        ? (frontDistance - previous.distance) / (time - previous.time)
+        : null,
+    });
+  }
+
+  const drop = releaseTop.z - runoutPoint.z;
+  const travelAngle = runoutDistance > 0 ? (Math.atan2(drop, runoutDistance) * 180) / Math.PI : 0;
+  const maxFrontVelocity = Math.max(0, ...front.map((position) => position.velocity ?? 0));
+
+  return {
+    releaseTop,
+    runoutPoint,
+    runoutDistance,
+    travelAngle,
+    maxFrontVelocity,
+    front,
+  };
+}
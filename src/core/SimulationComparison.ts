@@ -0,0 +1,349 @@
+import type Graphic from '@arcgis/core/Graphic';
+import type SceneView from '@arcgis/core/views/SceneView';
+import type { ComparisonMode, ExtentData, FlowHeightData, GridData } from '../config/types';
+import { DEFAULT_TERRAIN_CONFIG, DIFFERENCE_COLOR_STOPS, EXTENT_TOLERANCE } from '../config/constants';
+import type { AvalancheSimulation } from './AvalancheSimulation';
+import type { LocalDem } from './LocalDem';
+import { createMesh, createMeshGraphic } from './MeshGenerator';
+import { getElevationService } from './ElevationService';
+import { generateSmoothedGrid } from '../utils/interpolation';
+import {
+  computeCellMaximum,
+  getCellArea,
+  getGridSize,
+  isSameExtent,
+  resampleToExtent,
+  unionExtents,
+} from '../utils/gridUtils';
+
+/**
+ * Flow heights of both simulations at a time step, on the common grid
+ */
+interface ComparisonFrame {
+  time: number;
+  reference: Float32Array;
+  other: Float32Array;
+}
+
+/**
+ * Difference of flow height between two simulations (other minus reference),
+ * per frame and for the max envelopes, on a common grid
+ */
+export class SimulationComparison {
+  private reference: AvalancheSimulation;
+  private other: AvalancheSimulation;
+  private view: SceneView | null = null;
+  private extent: ExtentData | null = null;
+  private gridData: GridData | null = null;
+  private frames: ComparisonFrame[] = [];
+  private meshCache: Map<number, Graphic> = new Map();
+  private envelopeGraphic: Graphic | null = null;
+  private mode: ComparisonMode = 'frame';
+  private currentTime: number | null = null;
+  private warnings: string[] = [];
+
+  constructor(reference: AvalancheSimulation, other: AvalancheSimulation) {
+    this.reference = reference;
+    this.other = other;
+  }
+
+  /**
+   * Compute the difference grids and build the meshes
+   * Mismatched extents are resampled onto their union, with a warning.
+   */
+  async initialize(view: SceneView): Promise<void> {
+    this.view = view;
+
+    const referenceName = this.reference.getConfig().name;
+    const otherName = this.other.getConfig().name;
+    const referenceFrame = this.getFirstFrame(this.reference);
+    const otherFrame = this.getFirstFrame(this.other);
+    if (!referenceFrame || !otherFrame) {
+      throw new Error(`No frames loaded to compare ${referenceName} and ${otherName}`);
+    }
+
+    const referenceExtent = referenceFrame.extent;
+    const otherExtent = otherFrame.extent;
+    if (referenceExtent.spatialReference.wkid !== otherExtent.spatialReference.wkid) {
+      throw new Error(
+        `Cannot compare ${referenceName} and ${otherName}: different spatial references`
+      );
+    }
+
+    const cellWidth = (referenceExtent.xmax - referenceExtent.xmin) / referenceFrame.width;
+    const cellHeight = (referenceExtent.ymax - referenceExtent.ymin) / referenceFrame.height;
+    const sameGrid =
+      referenceFrame.width === otherFrame.width &&
+      referenceFrame.height === otherFrame.height &&
+      isSameExtent(referenceExtent, otherExtent, cellWidth * EXTENT_TOLERANCE);
+
+    if (sameGrid) {
+      this.extent = referenceExtent;
+      this.gridData = this.reference.getGridData();
+    } else {
+      // Common grid with the reference's cell size, within the cell budget
+      this.extent = unionExtents(referenceExtent, otherExtent);
+      const [width, height] = getGridSize(
+        (this.extent.xmax - this.extent.xmin) / cellWidth,
+        (this.extent.ymax - this.extent.ymin) / cellHeight,
+        this.reference.getMaxGridCells()
+      );
+      this.warnings.push(
+        `Extents of ${referenceName} and ${otherName} differ, both were resampled ` +
+        `onto a common ${width}×${height} grid`
+      );
+      const dems = [this.reference.getDem(), this.other.getDem()]
+        .filter((dem): dem is LocalDem => dem !== null);
+      this.gridData = await getElevationService().queryGridElevations(this.extent, width, height, dems);
+    }
+
+    // Union of time steps, a simulation without a frame at a time keeps its previous frame
+    const times = Array.from(
+      new Set([...this.reference.getTimeSteps(), ...this.other.getTimeSteps()])
+    ).sort((a, b) => a - b);
+
+    const getReference = this.createFrameLookup(this.reference, sameGrid);
+    const getOther = this.createFrameLookup(this.other, sameGrid);
+    this.frames = times.map((time) => ({
+      time,
+      reference: getReference(time),
+      other: getOther(time),
+    }));
+
+    this.rebuild();
+  }
+
+  /**
+   * Get the reference simulation (subtracted from the other one)
+   */
+  getReference(): AvalancheSimulation {
+    return this.reference;
+  }
+
+  /**
+   * Get the simulation compared against the reference
+   */
+  getOther(): AvalancheSimulation {
+    return this.other;
+  }
+
+  /**
+   * Get warnings raised while building the comparison
+   */
+  getWarnings(): string[] {
+    return [...this.warnings];
+  }
+
+  /**
+   * Get the displayed difference
+   */
+  getMode(): ComparisonMode {
+    return this.mode;
+  }
+
+  /**
+   * Switch between the per-frame and the max envelope difference
+   */
+  setMode(mode: ComparisonMode): void {
+    this.mode = mode;
+    this.updateVisibility();
+  }
+
+  /**
+   * Show the difference at a time (the last time step not after it)
+   */
+  displayTime(time: number): void {
+    let frameTime: number | null = null;
+    for (const frame of this.frames) {
+      if (frame.time > time) break;
+      frameTime = frame.time;
+    }
+
+    this.currentTime = frameTime ?? this.frames[0]?.time ?? null;
+    this.updateVisibility();
+  }
+
+  /**
+   * Rebuild the meshes with the reference simulation's display settings
+   */
+  rebuild(): void {
+    if (!this.view || !this.gridData || !this.extent) return;
+
+    this.removeGraphics();
+
+    const { smoothingFactor, flattenPasses } = this.reference.getState();
+    const terrainConfig = {
+      ...DEFAULT_TERRAIN_CONFIG,
+      exaggerationFactor: this.reference.getExaggeration(),
+    };
+    const smoothedGridData = smoothingFactor > 1
+      ? generateSmoothedGrid(this.gridData, smoothingFactor)
+      : null;
+
+    const buildGraphic = (reference: Float32Array, other: Float32Array): Graphic | null => {
+      // Extrude by the larger flow height, color by the difference
+      const mesh = createMesh(
+        this.toFlowData(computeCellMaximum([reference, other], reference.length)),
+        this.gridData!,
+        smoothedGridData,
+        terrainConfig,
+        smoothingFactor,
+        flattenPasses,
+        { values: this.subtract(other, reference), stops: DIFFERENCE_COLOR_STOPS }
+      );
+      if (!mesh) return null;
+
+      const graphic = createMeshGraphic(mesh);
+      this.view!.graphics.add(graphic);
+      return graphic;
+    };
+
+    for (const frame of this.frames) {
+      const graphic = buildGraphic(frame.reference, frame.other);
+      if (graphic) {
+        this.meshCache.set(frame.time, graphic);
+      }
+    }
+
+    const size = this.gridData.width * this.gridData.height;
+    this.envelopeGraphic = buildGraphic(
+      computeCellMaximum(this.frames.map((frame) => frame.reference), size),
+      computeCellMaximum(this.frames.map((frame) => frame.other), size)
+    );
+
+    this.updateVisibility();
+  }
+
+  /**
+   * Remove all graphics from the view
+   */
+  dispose(): void {
+    this.removeGraphics();
+    this.frames = [];
+    this.view = null;
+    this.gridData = null;
+    this.extent = null;
+    this.currentTime = null;
+  }
+
+  /**
+   * Show the mesh of the current mode and time, hide the others
+   */
+  private updateVisibility(): void {
+    this.meshCache.forEach((graphic, time) => {
+      graphic.visible = this.mode === 'frame' && time === this.currentTime;
+    });
+    if (this.envelopeGraphic) {
+      this.envelopeGraphic.visible = this.mode === 'envelope';
+    }
+  }
+
+  /**
+   * Remove the frame and envelope meshes from the view
+   */
+  private removeGraphics(): void {
+    if (this.view) {
+      this.meshCache.forEach((graphic) => {
+        this.view!.graphics.remove(graphic);
+      });
+      if (this.envelopeGraphic) {
+        this.view.graphics.remove(this.envelopeGraphic);
+      }
+    }
+    this.meshCache.clear();
+    this.envelopeGraphic = null;
+  }
+
+  /**
+   * Get the first loaded frame of a simulation
+   */
+  private getFirstFrame(simulation: AvalancheSimulation): FlowHeightData | undefined {
+    for (const time of simulation.getTimeSteps()) {
+      const frame = simulation.getFrame(time);
+      if (frame) return frame;
+    }
+    return undefined;
+  }
+
+  /**
+   * Create a lookup of a simulation's flow heights on the common grid
+   * Before the first frame the grid is empty, afterwards the last frame is kept.
+   */
+  private createFrameLookup(
+    simulation: AvalancheSimulation,
+    sameGrid: boolean
+  ): (time: number) => Float32Array {
+    const { width, height } = this.gridData!;
+    const empty = new Float32Array(width * height);
+    const resampled = new Map<number, Float32Array>();
+    const timeSteps = simulation.getTimeSteps().filter((time) => simulation.getFrame(time));
+
+    return (time: number) => {
+      let frameTime: number | undefined;
+      for (const t of timeSteps) {
+        if (t > time) break;
+        frameTime = t;
+      }
+      if (frameTime === undefined) return empty;
+
+      const frame = simulation.getFrame(frameTime)!;
+      if (sameGrid) return frame.flowHeights;
+
+      if (!resampled.has(frameTime)) {
+        resampled.set(
+          frameTime,
+          resampleToExtent(
+            frame.flowHeights,
+            frame.width,
+            frame.height,
+            frame.extent,
+            this.extent!,
+            width,
+            height
+          )
+        );
+      }
+      return resampled.get(frameTime)!;
+    };
+  }
+
+  /**
+   * Subtract two grids cell by cell
+   */
+  private subtract(a: Float32Array, b: Float32Array): Float32Array {
+    const difference = new Float32Array(a.length);
+    for (let i = 0; i < a.length; i++) {
+      difference[i] = a[i] - b[i];
+    }
+    return difference;
+  }
+
+  /**
+   * Wrap a flow height grid on the common extent as frame data
+   */
+  private toFlowData(flowHeights: Float32Array): FlowHeightData {
+    const { width, height } = this.gridData!;
+
+    let maxHeight = 0;
+    let nonZeroCount = 0;
+    let sum = 0;
+    for (const value of flowHeights) {
+      if (value > 0) {
+        nonZeroCount++;
+        sum += value;
+        if (value > maxHeight) maxHeight = value;
+      }
+    }
+
+    return {
+      flowHeights,
+      extent: this.extent!,
+      width,
+      height,
+      maxHeight,
+      nonZeroCount,
+      meanHeight: nonZeroCount > 0 ? sum / nonZeroCount : 0,
+      affectedArea: nonZeroCount * getCellArea(this.extent!, width, height),
+    };
+  }
+}
@@ -1,30 +1,68 @@
 import type SceneView from '@arcgis/core/views/SceneView';
 import Extent from '@arcgis/core/geometry/Extent';
 import { AvalancheSimulation } from './AvalancheSimulation';
-import type { AvalancheConfig } from '../config/types';
-import { CAMERA_ANIMATION_DURATION } from '../config/constants';
+import { SimulationComparison } from './SimulationComparison';
+import { EnsembleAnalysis } from './EnsembleAnalysis';
+import { resolveFrameList } from './TiffLoader';
+import { getDataCache } from './DataCache';
+import { getElevationService } from './ElevationService';
+import { createTerrainProvider } from './TerrainProvider';
+import { isAbortError, raceAbort } from '../utils/asyncUtils';
+import type {
+  AnimationEventHandler,
+  AvalancheConfig,
+  AvalancheConfigInput,
+  BasemapConfig,
+  EnsembleConfig,
+  FrameProgressHandler,
+  SimulationProduct,
+  TerrainProviderConfig,
+} from '../config/types';
+import {
+  CAMERA_ANIMATION_DURATION,
+  DEFAULT_LOAD_CONCURRENCY,
+  DEFAULT_TERRAIN_CONFIG,
+  FLOW_HEIGHT_VARIABLE_ID,
+} from '../config/constants';
 
 export interface AvalanchesData {
-  avalanches: AvalancheConfig[];
+  avalanches: AvalancheConfigInput[];
+  ensembles?: EnsembleConfig[];
+  terrain?: TerrainProviderConfig;
+  basemap?: BasemapConfig;
   defaults?: {
-    gridResolution?: number;
+    maxGridCells?: number;
     exaggerationFactor?: number;
     smoothingFactor?: number;
     flattenPasses?: number;
+    loadConcurrency?: number;
+    cacheBudgetMb?: number;
   };
 }
 
-export type SimulationEventType = 'avalancheChange' | 'loadProgress' | 'ready';
+export type SimulationEventType = 'avalancheChange' | 'loadProgress' | 'ready' | 'error';
 
 export interface SimulationEvent {
   type: SimulationEventType;
   avalancheId?: string;
   loaded?: number;
   total?: number;
+  time?: number;
+  error?: Error;
 }
 
 export type SimulationEventHandler = (event: SimulationEvent) => void;
 
+/**
+ * Load of a simulation shared by all callers requesting it meanwhile
+ */
+interface PendingLoad {
+  promise: Promise<AvalancheSimulation>;
+  controller: AbortController;              // Aborted once all callers cancelled
+  progressHandlers: Set<FrameProgressHandler>;
+  callers: number;
+}
+
 /**
  * Manages multiple avalanche simulations
  */
@@ -32,9 +70,18 @@ export class SimulationManager {
   private view: SceneView | null = null;
   private simulations: Map<string, AvalancheSimulation> = new Map();
   private configs: AvalancheConfig[] = [];
+  private ensembleConfigs: EnsembleConfig[] = [];
+  private basemapConfig: BasemapConfig | null = null;
   private activeSimulationId: string | null = null;
   private eventHandlers: Map<string, SimulationEventHandler[]> = new Map();
   private playAllMode: boolean = false;
+  private comparison: SimulationComparison | null = null;
+  private comparisonFrameHandler: AnimationEventHandler | null = null;
+  private ensemble: EnsembleAnalysis | null = null;
+  private loadConcurrency: number = DEFAULT_LOAD_CONCURRENCY;
+  private maxGridCells: number = DEFAULT_TERRAIN_CONFIG.maxGridCells;
+  private switchController: AbortController | null = null;
+  private pendingLoads: Map<string, PendingLoad> = new Map();
 
   /**
    * Load avalanche configurations from JSON
@@ -45,10 +92,62 @@ export class SimulationManager {
       throw new Error(`Failed to load avalanche configs: ${response.statusText}`);
     }
     const data: AvalanchesData = await response.json();
-    this.configs = data.avalanches;
+
+    // Configs with an unreadable frame list are left out
+    const resolved = await Promise.all(
+      data.avalanches.map((config) =>
+        resolveFrameList(config).catch((error) => {
+          console.error(`Failed to load the frame list of ${config.name}:`, error);
+          return null;
+        })
+      )
+    );
+    this.configs = resolved.filter((config): config is AvalancheConfig => config !== null);
+    this.ensembleConfigs = data.ensembles ?? [];
+    this.basemapConfig = data.basemap ?? null;
+    this.loadConcurrency = data.defaults?.loadConcurrency ?? DEFAULT_LOAD_CONCURRENCY;
+    this.maxGridCells = data.defaults?.maxGridCells ?? DEFAULT_TERRAIN_CONFIG.maxGridCells;
+    if (data.terrain) {
+      getElevationService().setProvider(createTerrainProvider(data.terrain));
+    }
+    getElevationService().setFallbackElevation(data.terrain?.fallbackElevation ?? null);
+    if (data.defaults?.cacheBudgetMb !== undefined) {
+      await getDataCache().setBudget(data.defaults.cacheBudgetMb);
+    }
     return this.configs;
   }
 
+  /**
+   * Set the number of frames fetched and decoded in parallel
+   */
+  setLoadConcurrency(concurrency: number): void {
+    this.loadConcurrency = Math.max(1, Math.floor(concurrency));
+  }
+
+  /**
+   * Get the configured basemap (null keeps the scene's default)
+   */
+  getBasemapConfig(): BasemapConfig | null {
+    return this.basemapConfig;
+  }
+
+  /**
+   * Get all ensemble configurations
+   */
+  getEnsembleConfigs(): EnsembleConfig[] {
+    return this.ensembleConfigs;
+  }
+
+  /**
+   * Register an additional avalanche configuration (e.g. from local files)
+   */
+  addConfig(config: AvalancheConfig): void {
+    if (this.configs.some((c) => c.id === config.id)) {
+      throw new Error(`Avalanche config already exists: ${config.id}`);
+    }
+    this.configs.push(config);
+  }
+
   /**
    * Get all avalanche configurations
    */
@@ -65,10 +164,15 @@ export class SimulationManager {
 
   /**
    * Load and initialize a specific avalanche simulation
+   * Concurrent requests for the same simulation share one load. A caller
+   * whose signal is aborted stops waiting with an AbortError, the load
+   * itself is cancelled once all its callers are. A failed or cancelled
+   * load is disposed and not cached.
    */
   async loadSimulation(
     configOrId: AvalancheConfig | string,
-    onProgress?: (loaded: number, total: number) => void
+    onProgress?: FrameProgressHandler,
+    signal?: AbortSignal
   ): Promise<AvalancheSimulation> {
     if (!this.view) {
       throw new Error('View not set. Call setView() first.');
@@ -83,30 +187,86 @@ export class SimulationManager {
     }
 
     // Check if already loaded
-    let simulation = this.simulations.get(config.id);
+    const simulation = this.simulations.get(config.id);
     if (simulation) {
       return simulation;
     }
 
-    // Create and initialize new simulation
-    simulation = new AvalancheSimulation(config);
-    await simulation.initialize(this.view, onProgress);
-    this.simulations.set(config.id, simulation);
+    const pending = this.pendingLoads.get(config.id) ?? this.startLoad(config, this.view);
+    pending.callers++;
+    if (onProgress) {
+      pending.progressHandlers.add(onProgress);
+    }
+    try {
+      return await raceAbort(pending.promise, signal);
+    } finally {
+      pending.callers--;
+      if (onProgress) {
+        pending.progressHandlers.delete(onProgress);
+      }
+      // Settled loads are no longer pending, only cancelled callers get here
+      if (pending.callers === 0 && this.pendingLoads.get(config.id) === pending) {
+        pending.controller.abort(signal?.reason);
+      }
+    }
+  }
+
+  /**
+   * Create and initialize a simulation, its errors are forwarded
+   * It is cached once initialized and disposed if the load fails.
+   */
+  private startLoad(config: AvalancheConfig, view: SceneView): PendingLoad {
+    const controller = new AbortController();
+    const progressHandlers = new Set<FrameProgressHandler>();
+
+    const simulation = new AvalancheSimulation(config);
+    simulation.on('error', (event) => {
+      this.emit({ type: 'error', avalancheId: config.id, error: event.error });
+    });
 
-    return simulation;
+    const promise = simulation
+      .initialize(
+        view,
+        (loaded, total, time) => progressHandlers.forEach((handler) => handler(loaded, total, time)),
+        { concurrency: this.loadConcurrency, maxGridCells: this.maxGridCells, signal: controller.signal }
+      )
+      .then(
+        () => {
+          this.simulations.set(config.id, simulation);
+          return simulation;
+        },
+        (error) => {
+          simulation.dispose();
+          throw error;
+        }
+      )
+      .finally(() => this.pendingLoads.delete(config.id));
+
+    const pending: PendingLoad = { promise, controller, progressHandlers, callers: 0 };
+    this.pendingLoads.set(config.id, pending);
+    return pending;
   }
 
   /**
    * Switch to a different avalanche
+   * A switch that is still loading is cancelled by the next one or by the
+   * given signal; the returned promise then rejects with an AbortError and
+   * the previous avalanche stays active.
    */
   async switchToAvalanche(
     id: string,
-    onProgress?: (loaded: number, total: number) => void
+    onProgress?: FrameProgressHandler,
+    signal?: AbortSignal
   ): Promise<void> {
     if (!this.view) {
       throw new Error('View not set');
     }
 
+    const { controller, end } = this.beginSwitch(signal);
+
+    this.stopComparison();
+    this.closeEnsemble();
+
     // Pause and hide current simulation
     const currentSim = this.getActiveSimulation();
     if (currentSim) {
@@ -114,18 +274,39 @@ export class SimulationManager {
       currentSim.hide();
     }
 
-    // Load the new simulation if needed
-    const simulation = await this.loadSimulation(id, onProgress);
-
-    // Show and display first frame
-    simulation.show();
-    simulation.displayFrame(0);
-
-    // Update active simulation
-    this.activeSimulationId = id;
+    try {
+      // Load the new simulation if needed
+      const simulation = await this.loadSimulation(
+        id,
+        (loaded, total, time) => {
+          // A cancelled load reports no further progress
+          if (controller.signal.aborted) return;
+          onProgress?.(loaded, total, time);
+          this.emit({ type: 'loadProgress', avalancheId: id, loaded, total, time });
+        },
+        controller.signal
+      );
+      controller.signal.throwIfAborted();
+
+      // Show and display first frame
+      simulation.show();
+      simulation.displayFrame(0);
+
+      // Update active simulation
+      this.activeSimulationId = id;
+    } catch (error) {
+      // Restore the previous avalanche unless the switch was cancelled
+      // (another switch, the ensemble or play all took over)
+      if (!controller.signal.aborted && !isAbortError(error)) {
+        currentSim?.show();
+      }
+      throw error;
+    } finally {
+      end();
+    }
 
     // Zoom to extent
-    const extent = simulation.getExtent();
+    const extent = this.getActiveSimulation()?.getExtent();
     if (extent) {
       await this.zoomToExtent(extent);
     }
@@ -133,6 +314,41 @@ export class SimulationManager {
     this.emit({ type: 'avalancheChange', avalancheId: id });
   }
 
+  /**
+   * Start loading for a switch (avalanche, comparison, ensemble or play
+   * all), cancelling the one still loading
+   * The returned controller is also aborted by the given signal; end must
+   * be called once the switch has finished loading.
+   */
+  private beginSwitch(signal?: AbortSignal): { controller: AbortController; end: () => void } {
+    this.cancelSwitch();
+    const controller = new AbortController();
+    this.switchController = controller;
+
+    const abort = () => controller.abort(signal?.reason);
+    if (signal?.aborted) {
+      abort();
+    } else {
+      signal?.addEventListener('abort', abort, { once: true });
+    }
+
+    const end = () => {
+      signal?.removeEventListener('abort', abort);
+      if (this.switchController === controller) {
+        this.switchController = null;
+      }
+    };
+    return { controller, end };
+  }
+
+  /**
+   * Cancel a switch that is still loading
+   */
+  private cancelSwitch(): void {
+    this.switchController?.abort();
+    this.switchController = null;
+  }
+
   /**
    * Get the currently active simulation
    */
@@ -149,6 +365,164 @@ export class SimulationManager {
     return this.configs.find(c => c.id === this.activeSimulationId) || null;
   }
 
+  /**
+   * Compare the active simulation (reference) with another one
+   * The difference replaces the reference meshes and follows its playback.
+   * Loading is cancelled like a switch (see switchToAvalanche).
+   */
+  async startComparison(
+    otherId: string,
+    onProgress?: (loaded: number, total: number) => void,
+    signal?: AbortSignal
+  ): Promise<SimulationComparison> {
+    if (!this.view) {
+      throw new Error('View not set');
+    }
+
+    const reference = this.getActiveSimulation();
+    if (!reference || this.playAllMode) {
+      throw new Error('Comparison requires a single active simulation');
+    }
+    if (otherId === this.activeSimulationId) {
+      throw new Error('Cannot compare a simulation with itself');
+    }
+
+    this.stopComparison();
+
+    const { controller, end } = this.beginSwitch(signal);
+    let comparison: SimulationComparison;
+    try {
+      const other = await this.loadSimulation(otherId, onProgress, controller.signal);
+      other.hide();
+
+      // The comparison needs all frames of both simulations
+      await raceAbort(Promise.all([reference.whenLoaded(), other.whenLoaded()]), controller.signal);
+
+      comparison = new SimulationComparison(reference, other);
+      await comparison.initialize(this.view);
+      if (controller.signal.aborted) {
+        comparison.dispose();
+        controller.signal.throwIfAborted();
+      }
+    } finally {
+      end();
+    }
+
+    this.comparisonFrameHandler = (event) => {
+      if (event.time !== undefined) {
+        comparison.displayTime(event.time);
+      }
+    };
+    reference.on('frameChange', this.comparisonFrameHandler);
+    reference.hide();
+    comparison.displayTime(reference.getCurrentTime());
+
+    this.comparison = comparison;
+    return comparison;
+  }
+
+  /**
+   * End the comparison and show the reference simulation again
+   */
+  stopComparison(): void {
+    if (!this.comparison) return;
+
+    const reference = this.comparison.getReference();
+    if (this.comparisonFrameHandler) {
+      reference.off('frameChange', this.comparisonFrameHandler);
+      this.comparisonFrameHandler = null;
+    }
+    this.comparison.dispose();
+    this.comparison = null;
+
+    reference.show();
+  }
+
+  /**
+   * Get the active comparison, if any
+   */
+  getComparison(): SimulationComparison | null {
+    return this.comparison;
+  }
+
+  /**
+   * Load the members of an ensemble and show its probability of exceedance map
+   * instead of the individual simulations
+   * Loading is cancelled like a switch (see switchToAvalanche).
+   */
+  async showEnsemble(
+    id: string,
+    onProgress?: (loaded: number, total: number) => void,
+    signal?: AbortSignal
+  ): Promise<EnsembleAnalysis> {
+    if (!this.view) {
+      throw new Error('View not set');
+    }
+
+    const config = this.ensembleConfigs.find((c) => c.id === id);
+    if (!config) {
+      throw new Error(`Ensemble config not found: ${id}`);
+    }
+    if (config.members.length === 0) {
+      throw new Error(`Ensemble ${config.name} has no members`);
+    }
+
+    const { controller, end } = this.beginSwitch(signal);
+    this.stopComparison();
+    this.closeEnsemble();
+    this.playAllMode = false;
+    this.simulations.forEach((sim) => {
+      sim.pause();
+      sim.hide();
+    });
+    this.activeSimulationId = null;
+
+    let ensemble: EnsembleAnalysis;
+    try {
+      const members: AvalancheSimulation[] = [];
+      for (const memberId of config.members) {
+        const member = await this.loadSimulation(memberId, undefined, controller.signal);
+        member.hide();
+        await raceAbort(member.whenLoaded(), controller.signal);
+        members.push(member);
+        onProgress?.(members.length, config.members.length);
+      }
+
+      ensemble = new EnsembleAnalysis(config, members);
+      await ensemble.initialize(this.view);
+      await ensemble.update(config.variable ?? FLOW_HEIGHT_VARIABLE_ID, ensemble.getThreshold());
+      if (controller.signal.aborted) {
+        ensemble.dispose();
+        controller.signal.throwIfAborted();
+      }
+    } finally {
+      end();
+    }
+    this.ensemble = ensemble;
+
+    const extent = ensemble.getExtent();
+    if (extent) {
+      await this.zoomToExtent(new Extent(extent));
+    }
+
+    return ensemble;
+  }
+
+  /**
+   * Remove the ensemble probability map
+   */
+  closeEnsemble(): void {
+    this.ensemble?.dispose();
+    this.ensemble = null;
+  }
+
+  /**
+   * Get the displayed ensemble, if any
+   */
+  getEnsemble(): EnsembleAnalysis | null {
+    return this.ensemble;
+  }
+
   /**
    * Zoom to an extent with animation
    */
@@ -187,21 +561,28 @@ export class SimulationManager {
 
   /**
    * Load all simulations
+   * Loading is cancelled like a switch (see switchToAvalanche).
    */
   async loadAllSimulations(
-    onProgress?: (loaded: number, total: number) => void
+    onProgress?: (loaded: number, total: number) => void,
+    signal?: AbortSignal
   ): Promise<void> {
     if (!this.view) {
       throw new Error('View not set');
     }
 
+    const { controller, end } = this.beginSwitch(signal);
     const total = this.configs.length;
     let loaded = 0;
 
-    for (const config of this.configs) {
-      await this.loadSimulation(config.id);
-      loaded++;
-      onProgress?.(loaded, total);
+    try {
+      for (const config of this.configs) {
+        await this.loadSimulation(config.id, undefined, controller.signal);
+        loaded++;
+        onProgress?.(loaded, total);
+      }
+    } finally {
+      end();
     }
   }
 
@@ -233,6 +614,9 @@ export class SimulationManager {
       throw new Error('View not set');
     }
 
+    this.cancelSwitch();
+    this.stopComparison();
+    this.closeEnsemble();
     this.playAllMode = true;
 
     // Show all simulations and reset to frame 0
@@ -332,27 +716,49 @@ export class SimulationManager {
   /**
    * Set smoothing factor for all simulations
    */
-  setSmoothingAll(factor: number): void {
-    this.simulations.forEach((sim) => {
-      sim.setSmoothing(factor);
-    });
+  async setSmoothingAll(factor: number): Promise<void> {
+    await Promise.all(this.getAllSimulations().map((sim) => sim.setSmoothing(factor)));
   }
 
   /**
    * Set flatten passes for all simulations
    */
-  setFlattenPassesAll(passes: number): void {
+  async setFlattenPassesAll(passes: number): Promise<void> {
+    await Promise.all(this.getAllSimulations().map((sim) => sim.setFlattenPasses(passes)));
+  }
+
+  /**
+   * Set exaggeration factor for all simulations
+   */
+  async setExaggerationAll(factor: number): Promise<void> {
+    await Promise.all(this.getAllSimulations().map((sim) => sim.setExaggeration(factor)));
+  }
+
+  /**
+   * Set the result variable for all simulations that provide it
+   */
+  async setVariableAll(variableId: string): Promise<void> {
+    const simulations = this.getAllSimulations().filter((sim) =>
+      sim.getVariables().some((v) => v.id === variableId)
+    );
+    await Promise.all(simulations.map((sim) => sim.setVariable(variableId)));
+  }
+
+  /**
+   * Display a static product (or the animation if null) for all simulations
+   */
+  setProductAll(product: SimulationProduct | null): void {
     this.simulations.forEach((sim) => {
-      sim.setFlattenPasses(passes);
+      sim.setProduct(product);
     });
   }
 
   /**
-   * Set exaggeration factor for all simulations
+   * Set the arrival time threshold for all simulations
    */
-  setExaggerationAll(factor: number): void {
+  setArrivalThresholdAll(threshold: number): void {
     this.simulations.forEach((sim) => {
-      sim.setExaggeration(factor);
+      sim.setArrivalThreshold(threshold);
     });
   }
 
@@ -421,6 +827,11 @@ export class SimulationManager {
    * Dispose all simulations
    */
   dispose(): void {
+    this.cancelSwitch();
+    this.pendingLoads.forEach((pending) => pending.controller.abort());
+    this.pendingLoads.clear();
+    this.stopComparison();
+    this.closeEnsemble();
     this.simulations.forEach(sim => sim.dispose());
     this.simulations.clear();
     this.activeSimulationId = null;
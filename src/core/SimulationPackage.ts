@@ -0,0 +1,149 @@
+import { unzip, type Unzipped } from 'fflate';
+import type { AvalancheConfig, GeoJSONPolygon, SimulationPackageManifest } from '../config/types';
+import { createLocalConfig } from './LocalSimulationLoader';
+import { resolveFrameList } from './TiffLoader';
+
+// Name of the manifest file in a package
+const MANIFEST_FILE = 'manifest.json';
+
+let packageCount = 0;
+
+/**
+ * Load a zipped simulation package from a URL or a local file
+ * The package holds the frame rasters, a manifest.json and optionally a
+ * release-area GeoJSON. Folders inside the archive are ignored. Frames stay
+ * in memory and are loaded like local files.
+ */
+export async function loadSimulationPackage(source: string | File): Promise<AvalancheConfig> {
+  const packageName = typeof source === 'string' ? source : source.name;
+
+  let buffer: ArrayBuffer;
+  if (typeof source === 'string') {
+    const response = await fetch(source);
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} for ${source}`);
+    }
+    buffer = await response.arrayBuffer();
+  } else {
+    buffer = await source.arrayBuffer();
+  }
+
+  const entries = await unzipAsync(new Uint8Array(buffer));
+  const files = new Map<string, Uint8Array>();
+  for (const [path, data] of Object.entries(entries)) {
+    const fileName = path.split('/').pop() ?? '';
+    if (!fileName || path.startsWith('__MACOSX/') || fileName.startsWith('.')) continue;
+    files.set(fileName, data);
+  }
+
+  const manifestData = files.get(MANIFEST_FILE);
+  if (!manifestData) {
+    throw new Error(`${packageName} has no ${MANIFEST_FILE}`);
+  }
+  const manifest = JSON.parse(new TextDecoder().decode(manifestData)) as SimulationPackageManifest;
+
+  const frameFiles = Array.from(files.entries())
+    .filter(([fileName]) => fileName !== MANIFEST_FILE)
+    .map(([fileName, data]) => new File([data as BlobPart], fileName));
+
+  const demFile = manifest.dem ? frameFiles.find((file) => file.name === manifest.dem) : undefined;
+  if (manifest.dem && !demFile) {
+    throw new Error(`${packageName} has no DEM file ${manifest.dem}`);
+  }
+
+  const releaseFile = manifest.releaseArea
+    ?? Array.from(files.keys()).find((fileName) => /\.geojson$/i.test(fileName));
+  const releaseData = releaseFile ? files.get(releaseFile) : undefined;
+  if (releaseFile && !releaseData) {
+    throw new Error(`${packageName} has no release area file ${releaseFile}`);
+  }
+
+  const metadata = {
+    description: manifest.description ?? `Simulation package ${packageName.split('/').pop()}`,
+    releaseDepth: manifest.releaseDepth,
+    releaseArea: releaseData ? readReleaseArea(new TextDecoder().decode(releaseData)) : undefined,
+    demSource: manifest.demSource,
+    demGridResolution: manifest.demGridResolution,
+    dem: manifest.dem,
+    wkid: manifest.wkid,
+    hazardZones: manifest.hazardZones,
+  };
+
+  if (manifest.frames) {
+    // Explicit frames refer to the files by their names in the package,
+    // timeRange/timeInterval are derived from the list if not given
+    const packageFiles: Record<string, File> = {};
+    frameFiles.forEach((file) => {
+      packageFiles[file.name] = file;
+    });
+
+    packageCount++;
+    return resolveFrameList({
+      ...metadata,
+      id: `package-${packageCount}`,
+      name: manifest.name,
+      folder: '',
+      prefix: manifest.prefix ?? '',
+      suffix: manifest.suffix ?? '',
+      timeInterval: manifest.timeInterval,
+      timeRange: manifest.timeRange,
+      format: manifest.format,
+      variables: manifest.variables,
+      frames: manifest.frames,
+      files: packageFiles,
+    });
+  }
+
+  // The DEM must not be taken for a time step series
+  const inferred = createLocalConfig(
+    frameFiles.filter((file) => file !== demFile),
+    manifest.name
+  );
+  return {
+    ...inferred,
+    ...metadata,
+    prefix: manifest.prefix ?? inferred.prefix,
+    suffix: manifest.suffix ?? inferred.suffix,
+    timeInterval: manifest.timeInterval ?? inferred.timeInterval,
+    timeRange: manifest.timeRange ?? inferred.timeRange,
+    format: manifest.format ?? inferred.format,
+    variables: manifest.variables ?? inferred.variables,
+    files: demFile ? { ...inferred.files, [demFile.name]: demFile } : inferred.files,
+  };
+}
+
+/**
+ * Decompress a zip archive without blocking the main thread
+ */
+function unzipAsync(data: Uint8Array): Promise<Unzipped> {
+  return new Promise((resolve, reject) => {
+    unzip(data, (error, entries) => (error ? reject(error) : resolve(entries)));
+  });
+}
+
+/**
+ * Get the first polygon of a GeoJSON geometry, feature or feature collection
+ * (MultiPolygons contribute their first polygon)
+ */
+function readReleaseArea(text: string): GeoJSONPolygon | undefined {
+  const find = (object: Record<string, unknown> | null): GeoJSONPolygon | undefined => {
+    switch (object?.type) {
+      case 'Polygon':
+        return { type: 'Polygon', coordinates: object.coordinates as number[][][] };
+      case 'MultiPolygon':
+        return { type: 'Polygon', coordinates: (object.coordinates as number[][][][])[0] };
+      case 'Feature':
+        return find(object.geometry as Record<string, unknown> | null);
+      case 'FeatureCollection':
+        for (const feature of object.features as Record<string, unknown>[]) {
+          const polygon = find(feature);
+          if (polygon) return polygon;
+        }
+        return undefined;
+      default:
+        return undefined;
+    }
+  };
+
+  return find(JSON.parse(text));
+}
@@ -1,10 +1,7 @@
-import ImageryTileLayer from '@arcgis/core/layers/ImageryTileLayer';
+import type ImageryTileLayer from '@arcgis/core/layers/ImageryTileLayer';
 import * as rasterFunctionUtils from '@arcgis/core/layers/support/rasterFunctionUtils';
 import type RasterFunction from '@arcgis/core/layers/support/RasterFunction';
-
-// World Elevation Service URL
-const ELEVATION_SERVICE_URL =
-  'https://elevation3d.arcgis.com/arcgis/rest/services/WorldElevation3D/Terrain3D/ImageServer';
+import type { TerrainProvider } from './TerrainProvider';
 
 /**
  * Create a raster function for snow coverage visualization.
@@ -51,75 +48,14 @@ export function getCustomRasterFunctionSnow(minElevation: number = 2000): Raster
 /**
  * Create an ImageryTileLayer with snow cover visualization
  * Uses elevation and slope masks to show realistic snow coverage
+ * Returns null if the terrain provider has no elevation raster.
  */
-export function createSnowCoverLayer(minElevation: number = 0): ImageryTileLayer {
-  const layer = new ImageryTileLayer({
-    url: ELEVATION_SERVICE_URL,
+export function createSnowCoverLayer(
+  provider: TerrainProvider,
+  minElevation: number = 0
+): ImageryTileLayer | null {
+  return provider.createRasterLayer(getCustomRasterFunctionSnow(minElevation), {
     title: 'Snow Cover',
     opacity: 0.9,
-    rasterFunction: getCustomRasterFunctionSnow(minElevation),
-    blendMode: 'normal',
-  });
-
-  return layer;
-}
-
-/**
- * Create a raster function for visualizing slope angles.
- * Colors slopes by danger level:
- * - 22-27°: yellow
- * - 27-32°: orange
- * - 32-37°: red
- * - 37+°: purple
- */
-export function getCustomRasterFunctionSlopes(): RasterFunction {
-  // Compute slope
-  const slope = rasterFunctionUtils.slope({
-    slopeType: 'degree',
-    zFactor: 1,
-  });
-
-  // Apply smooth-arithmetic-mean convolution to reduce noise
-  const processedSlope = rasterFunctionUtils.convolution({
-    convolutionType: 'smooth-arithmetic-mean',
-    raster: slope,
-  });
-
-  // Remap slope values (degrees) to categorical ranges
-  const remapSlope = rasterFunctionUtils.remap({
-    rangeMaps: [
-      { range: [22, 27], output: 30 },
-      { range: [27, 32], output: 35 },
-      { range: [32, 37], output: 40 },
-      { range: [37, 90], output: 45 },
-    ],
-    raster: processedSlope,
-  });
-
-  // Map categorical ranges to RGB colors
-  const colorMapSlope = rasterFunctionUtils.colormap({
-    colormap: [
-      [30, 242, 229, 10], // yellow
-      [35, 244, 111, 36], // orange
-      [40, 255, 5, 91], // red
-      [45, 200, 137, 187], // purple
-    ],
-    raster: remapSlope,
   });
-
-  return colorMapSlope;
 }
-
-/**
- * Create an ImageryTileLayer for slope visualization
- * Shows avalanche danger zones by slope angle
- */
-export function createSlopesLayer(): ImageryTileLayer {
-  return new ImageryTileLayer({
-    url: ELEVATION_SERVICE_URL,
-    title: 'Slopes',
-    rasterFunction: getCustomRasterFunctionSlopes(),
-    opacity: 0.3,
-    visible: true,
-  });
-}
\ No newline at end of file
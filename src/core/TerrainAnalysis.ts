@@ -0,0 +1,122 @@
+import type ImageryTileLayer from '@arcgis/core/layers/ImageryTileLayer';
+import * as rasterFunctionUtils from '@arcgis/core/layers/support/rasterFunctionUtils';
+import type RasterFunction from '@arcgis/core/layers/support/RasterFunction';
+import type { TerrainAnalysisConfig, TerrainClass, TerrainProduct } from '../config/types';
+import {
+  ASPECT_CLASSES,
+  CURVATURE_CLASSES,
+  DEFAULT_TERRAIN_ANALYSIS_CONFIG,
+  SLOPE_CLASSES,
+} from '../config/constants';
+import type { RasterLayerProperties, TerrainProvider } from './TerrainProvider';
+
+// Classes of each terrain product
+const TERRAIN_CLASSES: Record<TerrainProduct, TerrainClass[]> = {
+  slope: SLOPE_CLASSES,
+  aspect: ASPECT_CLASSES,
+  curvature: CURVATURE_CLASSES,
+};
+
+// Layer properties of each terrain product, only slopes are shown initially
+const TERRAIN_LAYER_PROPERTIES: Record<TerrainProduct, RasterLayerProperties> = {
+  slope: { title: 'Slopes', opacity: 0.3, visible: true },
+  aspect: { title: 'Aspect', opacity: 0.5, visible: false },
+  curvature: { title: 'Curvature', opacity: 0.5, visible: false },
+};
+
+/**
+ * Get the classes a terrain product is colored by
+ */
+export function getTerrainClasses(product: TerrainProduct): TerrainClass[] {
+  return TERRAIN_CLASSES[product];
+}
+
+/**
+ * Create a raster function coloring a terrain product by its classes
+ * Aspect and curvature are limited to slopes of at least config.minSlope,
+ * where they matter for avalanche release.
+ */
+export function getTerrainRasterFunction(
+  product: TerrainProduct,
+  config: TerrainAnalysisConfig = DEFAULT_TERRAIN_ANALYSIS_CONFIG
+): RasterFunction {
+  let classified = classify(deriveProduct(product, config), TERRAIN_CLASSES[product]);
+
+  if (product !== 'slope') {
+    // Mask: slopes above the minimum -> 1, flatter terrain -> NoData
+    const slopeMask = rasterFunctionUtils.remap({
+      rangeMaps: [{ range: [config.minSlope, 90], output: 1 }],
+      raster: deriveProduct('slope', config),
+    });
+    classified = rasterFunctionUtils.times({
+      raster: classified,
+      raster2: slopeMask,
+    });
+  }
+
+  // Map class numbers to RGB colors
+  return rasterFunctionUtils.colormap({
+    colormap: TERRAIN_CLASSES[product].map(({ color }, i) => [i + 1, color[0], color[1], color[2]]),
+    raster: classified,
+  });
+}
+
+/**
+ * Create an ImageryTileLayer of a terrain product
+ * Returns null if the terrain provider has no elevation raster.
+ */
+export function createTerrainLayer(
+  provider: TerrainProvider,
+  product: TerrainProduct,
+  config: TerrainAnalysisConfig = DEFAULT_TERRAIN_ANALYSIS_CONFIG
+): ImageryTileLayer | null {
+  return provider.createRasterLayer(
+    getTerrainRasterFunction(product, config),
+    TERRAIN_LAYER_PROPERTIES[product]
+  );
+}
+
+/**
+ * Derive slope (°), aspect (° clockwise from north) or standard curvature
+ * from the elevations
+ */
+function deriveProduct(product: TerrainProduct, config: TerrainAnalysisConfig): RasterFunction {
+  // Smoothing the elevations rather than the derivative keeps aspects
+  // around north from being averaged to south
+  const elevation = config.smooth
+    ? rasterFunctionUtils.convolution({ convolutionType: 'smooth-arithmetic-mean' })
+    : undefined;
+
+  switch (product) {
+    case 'slope':
+      return rasterFunctionUtils.slope({
+        slopeType: 'degree',
+        zFactor: config.zFactor,
+        raster: elevation,
+      });
+    case 'aspect':
+      return rasterFunctionUtils.aspect({ raster: elevation });
+    case 'curvature':
+      return rasterFunctionUtils.curvature({
+        curvatureType: 'standard',
+        zFactor: config.zFactor,
+        raster: elevation,
+      });
+  }
+}
+
+/**
+ * Remap values to class numbers (1-based), values outside all classes
+ * become NoData
+ */
+function classify(raster: RasterFunction, classes: TerrainClass[]): RasterFunction {
+  const rangeMaps = classes.flatMap(({ min, max }, i) => {
+    const output = i + 1;
+    // Classes wrapping around (e.g. north from 337.5° to 22.5°) are split
+    return min > max
+      ? [{ range: [min, 360] as [number, number], output }, { range: [0, max] as [number, number], output }]
+      : [{ range: [min, max] as [number, number], output }];
+  });
+
+  return rasterFunctionUtils.remap({ rangeMaps, raster });
+}
@@ -0,0 +1,76 @@
+import type ElevationLayer from '@arcgis/core/layers/ElevationLayer';
+import type BaseElevationLayer from '@arcgis/core/layers/BaseElevationLayer';
+import type ImageryTileLayer from '@arcgis/core/layers/ImageryTileLayer';
+import type RasterFunction from '@arcgis/core/layers/support/RasterFunction';
+import type { TerrainProviderConfig } from '../config/types';
+import { DATA_FOLDER, ELEVATION_SERVICE_URL, WEB_MERCATOR_WKID } from '../config/constants';
+import { OnlineTerrainProvider } from './OnlineTerrainProvider';
+import { LocalTerrainProvider } from './LocalTerrainProvider';
+import { FlatTerrainProvider } from './FlatTerrainProvider';
+
+/**
+ * Layer usable as scene ground
+ */
+export type GroundLayer = ElevationLayer | BaseElevationLayer;
+
+/**
+ * Display properties of a raster derivative layer
+ */
+export interface RasterLayerProperties {
+  title: string;
+  opacity?: number;
+  visible?: boolean;
+}
+
+/**
+ * Source of ground elevations, the terrain surface and raster derivatives
+ * (slope, snow cover) computed from the elevation raster
+ */
+export interface TerrainProvider {
+  /** Name of the elevation source shown in the UI */
+  readonly name: string;
+
+  /** Identifies the source in cache keys, null if samples are not worth caching */
+  readonly cacheKey: string | null;
+
+  /** Prepare the provider, rejects if the source is unavailable */
+  load(): Promise<void>;
+
+  /** Sample elevations at points (NaN where the source has no data), rejects on failure */
+  sampleElevations(
+    points: [number, number][],
+    wkid: number,
+    signal?: AbortSignal
+  ): Promise<Float64Array>;
+
+  /** Get the layer showing the terrain as scene ground */
+  getGroundLayer(): Promise<GroundLayer>;
+
+  /** Create a layer applying a raster function to the elevation raster, null if not supported */
+  createRasterLayer(
+    rasterFunction: RasterFunction,
+    properties: RasterLayerProperties
+  ): ImageryTileLayer | null;
+}
+
+/**
+ * Create the terrain provider selected in the app config
+ * Relative DEM paths are resolved against the data folder.
+ */
+export function createTerrainProvider(config: TerrainProviderConfig): TerrainProvider {
+  switch (config.type) {
+    case 'online':
+      return new OnlineTerrainProvider(config.url ?? ELEVATION_SERVICE_URL);
+    case 'local': {
+      if (!config.dem) {
+        throw new Error('The local terrain provider needs a DEM file');
+      }
+      const url = /^([a-z]+:|\/)/i.test(config.dem) ? config.dem : `${DATA_FOLDER}/${config.dem}`;
+      return new LocalTerrainProvider(url, config.wkid ?? WEB_MERCATOR_WKID);
+    }
+    case 'flat':
+      return new FlatTerrainProvider(config.elevation ?? 0);
+    default:
+      throw new Error(`Unknown terrain provider ${(config as TerrainProviderConfig).type}`);
+  }
+}
@@ -1,18 +1,198 @@
-import { fromArrayBuffer } from 'geotiff';
-import type { AvalancheConfig, ExtentData, FlowHeightData } from '../config/types';
-import { WEB_MERCATOR_WKID, DATA_FOLDER } from '../config/constants';
+import { fromBlob, fromUrl, type GeoTIFF } from 'geotiff';
+import type {
+  AvalancheConfig,
+  AvalancheConfigInput,
+  ExtentData,
+  FlowHeightData,
+  FrameEntry,
+  FrameLoadOptions,
+  FrameProgressHandler,
+  FrameWarning,
+  RasterFormat,
+  ResultFrameData,
+  ResultVariableConfig,
+} from '../config/types';
+import {
+  WEB_MERCATOR_WKID,
+  DATA_FOLDER,
+  FLOW_HEIGHT_VARIABLE_ID,
+  DEFAULT_LOAD_CONCURRENCY,
+  EXTENT_TOLERANCE,
+} from '../config/constants';
+import { isSameExtent } from '../utils/gridUtils';
+import { mapConcurrent } from '../utils/asyncUtils';
+import { loadRaster } from './RasterDecoder';
+import { getWorkerPool } from './WorkerPool';
+import { getDataCache } from './DataCache';
+
+// Object URLs of local files, created once per file
+const objectUrls = new WeakMap<File, string>();
+
+// Times closer than this (s) refer to the same frame
+const TIME_TOLERANCE = 1e-6;
+
+// GeoTIFF handles opened for point probes by URL, least recently used first
+const probeTiffs = new Map<string, Promise<GeoTIFF>>();
+
+// Number of probe handles kept, enough for the frames of a few variables
+const MAX_PROBE_TIFFS = 128;
+
+/**
+ * Get the file name of a frame for a given avalanche config and time.
+ * Explicit frame lists take precedence; otherwise the name is built from the
+ * prefix/suffix, those of a result variable replacing the flow height ones.
+ */
+export function getFrameFileName(
+  config: AvalancheConfig,
+  time: number,
+  variable?: ResultVariableConfig
+): string {
+  const frames = variable ? variable.frames : config.frames;
+  const frame = frames?.find((f) => Math.abs(f.time - time) < TIME_TOLERANCE);
+  if (frame) return frame.file;
+
+  const prefix = variable?.prefix ?? config.prefix;
+  const suffix = variable?.suffix ?? config.suffix;
+  return `${prefix}${time.toFixed(2)}${suffix}`;
+}
+
+/**
+ * Get the URL of a file of an avalanche config
+ * Configs backed by local files return an object URL of the matching file.
+ */
+function getFileUrl(config: AvalancheConfigInput, fileName: string): string {
+  if (config.files) {
+    const file = config.files[fileName];
+    if (!file) {
+      throw new Error(`Missing local file ${fileName}`);
+    }
+    if (!objectUrls.has(file)) {
+      objectUrls.set(file, URL.createObjectURL(file));
+    }
+    return objectUrls.get(file)!;
+  }
+
+  return `${DATA_FOLDER}/${config.folder}/${fileName}`;
+}
+
+/**
+ * Release the object URLs created for the local files of a config
+ * They are created again if the files are read later on.
+ */
+export function revokeFileUrls(config: AvalancheConfig): void {
+  Object.values(config.files ?? {}).forEach((file) => {
+    const url = objectUrls.get(file);
+    if (url) {
+      URL.revokeObjectURL(url);
+      objectUrls.delete(file);
+      probeTiffs.delete(url);
+    }
+  });
+}
+
+/**
+ * Generate TIFF URL for a given avalanche config and time.
+ * When a result variable is given, its frames or prefix/suffix are used.
+ */
+export function getTiffUrl(
+  config: AvalancheConfig,
+  time: number,
+  variable?: ResultVariableConfig
+): string {
+  return getFileUrl(config, getFrameFileName(config, time, variable));
+}
+
+/**
+ * Get the URL of the DEM of an avalanche config (null if it has none)
+ */
+export function getDemUrl(config: AvalancheConfig): string | null {
+  return config.dem ? getFileUrl(config, config.dem) : null;
+}
+
+/**
+ * Parse a frame list, either [{ time, file }] or { "<time>": "<file>" }
+ */
+function parseFrameList(value: unknown): FrameEntry[] {
+  if (Array.isArray(value)) {
+    return value.map((entry: FrameEntry) => ({ time: Number(entry.time), file: String(entry.file) }));
+  }
+  if (value && typeof value === 'object') {
+    return Object.entries(value).map(([time, file]) => ({ time: Number(time), file: String(file) }));
+  }
+  throw new Error('Frame list must be an array of { time, file } or a time -> file object');
+}
+
+/**
+ * Resolve the explicit frame list of a config (inline or from its frame
+ * manifest) and derive timeRange/timeInterval from it if not given
+ * Configs without a frame list must have both.
+ */
+export async function resolveFrameList(config: AvalancheConfigInput): Promise<AvalancheConfig> {
+  let frames = config.frames ? parseFrameList(config.frames) : undefined;
+
+  if (!frames && config.frameManifest) {
+    const url = getFileUrl(config, config.frameManifest);
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} for ${url}`);
+    }
+    const manifest = await response.json();
+    frames = parseFrameList(manifest.frames ?? manifest);
+  }
+
+  if (!frames) {
+    const { timeRange, timeInterval } = config;
+    if (!timeRange || !timeInterval) {
+      throw new Error(`${config.name} needs a frame list or timeRange and timeInterval`);
+    }
+    return { ...config, timeRange, timeInterval };
+  }
+  if (frames.length === 0 || frames.some((frame) => isNaN(frame.time))) {
+    throw new Error(`Invalid frame list for ${config.name}`);
+  }
+
+  const times = Array.from(new Set(frames.map((frame) => frame.time))).sort((a, b) => a - b);
+  let minInterval = Infinity;
+  for (let i = 1; i < times.length; i++) {
+    minInterval = Math.min(minInterval, times[i] - times[i - 1]);
+  }
+
+  return {
+    ...config,
+    frames,
+    timeRange: config.timeRange ?? [times[0], times[times.length - 1]],
+    timeInterval: config.timeInterval ?? (isFinite(minInterval) ? minInterval : 1),
+  };
+}
 
 /**
- * Generate TIFF URL for a given avalanche config and time
+ * Get all result variables of an avalanche config, flow height first
  */
-export function getTiffUrl(config: AvalancheConfig, time: number): string {
-  return `${DATA_FOLDER}/${config.folder}/${config.prefix}${time.toFixed(2)}${config.suffix}`;
+export function getResultVariables(config: AvalancheConfig): ResultVariableConfig[] {
+  const flowHeight: ResultVariableConfig = {
+    id: FLOW_HEIGHT_VARIABLE_ID,
+    name: 'Flow Height',
+    prefix: config.prefix,
+    suffix: config.suffix,
+    unit: 'm',
+    frames: config.frames,
+  };
+
+  return [
+    flowHeight,
+    ...(config.variables ?? []).filter((v) => v.id !== FLOW_HEIGHT_VARIABLE_ID),
+  ];
 }
 
 /**
  * Generate array of time steps from avalanche config
+ * An explicit frame list defines the (possibly irregular) time steps.
  */
 export function generateTimeSteps(config: AvalancheConfig): number[] {
+  if (config.frames) {
+    return Array.from(new Set(config.frames.map((frame) => frame.time))).sort((a, b) => a - b);
+  }
+
   const [start, end] = config.timeRange;
   const interval = config.timeInterval;
   const steps: number[] = [];
@@ -25,101 +205,361 @@ export function generateTimeSteps(config: AvalancheConfig): number[] {
 }
 
 /**
- * Load and parse a TIFF file, returning flow height data
+ * Check whether the cached frames of a load are still current, given a
+ * cached frame's URL and validator
+ */
+type CacheCheck = (url: string, validator: string | null) => Promise<boolean>;
+
+/**
+ * Create the cache check of one load (e.g. all frames of a result variable)
+ * Only the first cached frame asked about is revalidated against its file,
+ * with a single HEAD request, and the answer applies to the whole load.
+ * Unknown validators (e.g. offline) keep the cache.
+ */
+function createCacheCheck(signal?: AbortSignal): CacheCheck {
+  let current: Promise<boolean> | undefined;
+  return (url, validator) => {
+    current ??= fetchValidator(url, signal).then((latest) => latest === null || latest === validator);
+    return current;
+  };
+}
+
+/**
+ * Decode a frame file onto a grid of at most maxCells cells
+ * Decoded frames are taken from the persistent cache if it is current,
+ * otherwise decoded in a worker and stored for the next visit together with
+ * the validator of the decoded response.
+ */
+async function decodeFrame(
+  url: string,
+  maxCells: number,
+  fallbackWkid: number,
+  format: RasterFormat,
+  signal?: AbortSignal,
+  checkCache: CacheCheck = createCacheCheck(signal)
+): Promise<ResultFrameData> {
+  const cache = getDataCache();
+  const cached = await cache.getFrame(url, maxCells, fallbackWkid);
+  if (cached && await checkCache(url, cached.validator)) {
+    return cached.frame;
+  }
+
+  const data = await getWorkerPool().decodeFrame(url, maxCells, fallbackWkid, format, signal);
+  // Not awaited, writing must not hold up loading
+  cache.putFrame(url, maxCells, fallbackWkid, data, data.validator ?? null);
+  return data;
+}
+
+/**
+ * Get the ETag (or Last-Modified) of a file with a HEAD request, null if
+ * the server sends neither or cannot be reached
+ * A cancelled request rejects instead.
+ */
+async function fetchValidator(url: string, signal?: AbortSignal): Promise<string | null> {
+  if (url.startsWith('blob:')) return null;
+  try {
+    const response = await fetch(url, { method: 'HEAD', cache: 'no-cache', signal });
+    if (!response.ok) return null;
+    return response.headers.get('ETag') ?? response.headers.get('Last-Modified');
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    return null;
+  }
+}
+
+/**
+ * Load and parse a frame file (GeoTIFF by default) in a worker, returning flow height data
+ * The spatial reference is read from the GeoKeys, files without them and
+ * text formats are assumed to be in fallbackWkid.
  */
 export async function loadTiffFrame(
   url: string,
-  gridResolution: number
+  maxCells: number,
+  fallbackWkid: number = WEB_MERCATOR_WKID,
+  format: RasterFormat = 'geotiff',
+  signal?: AbortSignal,
+  checkCache?: CacheCheck
 ): Promise<FlowHeightData> {
-  const response = await fetch(url);
-  if (!response.ok) {
-    throw new Error(`HTTP ${response.status} for ${url}`);
+  const data = await decodeFrame(url, maxCells, fallbackWkid, format, signal, checkCache);
+
+  return {
+    flowHeights: data.values,
+    extent: data.extent,
+    width: data.width,
+    height: data.height,
+    maxHeight: data.maxValue,
+    nonZeroCount: data.nonZeroCount,
+    meanHeight: data.meanValue,
+    affectedArea: data.affectedArea,
+  };
+}
+
+/**
+ * Read a single full-resolution pixel value of a frame file at a location
+ * given in the raster's own spatial reference
+ * Returns null if the location is outside the raster.
+ */
+export async function readTiffPixel(
+  url: string,
+  x: number,
+  y: number,
+  format: RasterFormat = 'geotiff',
+  signal?: AbortSignal
+): Promise<number | null> {
+  if (format !== 'geotiff') {
+    // Text formats cannot be read partially
+    const raster = await loadRaster(url, format, WEB_MERCATOR_WKID, signal);
+    const px = Math.floor((x - raster.extent.xmin) / raster.cellWidth);
+    const py = Math.floor((raster.extent.ymax - y) / raster.cellHeight);
+    if (px < 0 || py < 0 || px >= raster.width || py >= raster.height) {
+      return null;
+    }
+
+    const raw = raster.values[py * raster.width + px];
+    return raw > 0 && !isNaN(raw) ? raw : 0;
   }
 
-  const arrayBuffer = await response.arrayBuffer();
-  const tiff = await fromArrayBuffer(arrayBuffer);
+  const tiff = await openProbeTiff(url, signal);
   const image = await tiff.getImage();
 
-  const width = image.getWidth();
-  const height = image.getHeight();
-  const rasters = await image.readRasters();
-  const pixels = rasters[0] as Float32Array | Float64Array | Uint8Array;
+  const [originX, originY] = image.getOrigin();
+  const [resX, resY] = image.getResolution();
+  const px = Math.floor((x - originX) / resX);
+  const py = Math.floor((y - originY) / resY);
 
-  const bbox = image.getBoundingBox();
+  if (px < 0 || py < 0 || px >= image.getWidth() || py >= image.getHeight()) {
+    return null;
+  }
 
-  const extent: ExtentData = {
-    xmin: bbox[0],
-    ymin: bbox[1],
-    xmax: bbox[2],
-    ymax: bbox[3],
-    spatialReference: { wkid: WEB_MERCATOR_WKID },
-  };
+  const rasters = await image.readRasters({ window: [px, py, px + 1, py + 1], signal });
+  const raw = (rasters[0] as Float32Array | Float64Array | Uint8Array)[0];
+  return raw > 0 && !isNaN(raw) ? raw : 0;
+}
 
-  // Convert to flow heights grid (resample to target resolution)
-  const flowHeights = new Float32Array(gridResolution * gridResolution);
-  let maxHeight = 0;
-  let nonZeroCount = 0;
+/**
+ * Open a frame GeoTIFF for point probes, reading only the header and the
+ * tiles of the probed pixels (range requests, or slices of a local file)
+ * Handles are kept per URL so repeated probes do not parse the header again.
+ */
+function openProbeTiff(url: string, signal?: AbortSignal): Promise<GeoTIFF> {
+  let tiff = probeTiffs.get(url);
+  if (tiff) {
+    // Move to the most recently used end
+    probeTiffs.delete(url);
+  } else {
+    tiff = url.startsWith('blob:')
+      ? fetch(url, { signal }).then((response) => response.blob()).then((blob) => fromBlob(blob, signal))
+      : fromUrl(url, { allowFullFile: true }, signal); // Servers without range support send the whole file
+    // A failed or cancelled open can be retried
+    tiff.catch(() => probeTiffs.delete(url));
+  }
+  probeTiffs.set(url, tiff);
 
-  for (let y = 0; y < gridResolution; y++) {
-    for (let x = 0; x < gridResolution; x++) {
-      const normX = x / (gridResolution - 1);
-      const normY = y / (gridResolution - 1);
+  if (probeTiffs.size > MAX_PROBE_TIFFS) {
+    probeTiffs.delete(probeTiffs.keys().next().value!);
+  }
+  return tiff;
+}
 
-      const px = Math.floor(normX * (width - 1));
-      const py = Math.floor(normY * (height - 1));
-      const idx = py * width + px;
+/**
+ * Frames loaded for the time steps of a simulation and the problems found
+ */
+export interface FrameLoadResult<T> {
+  frames: Map<number, T>;
+  warnings: FrameWarning[];
+}
 
-      const value = pixels[idx];
-      const flowHeight = value > 0 && !isNaN(value) ? value : 0;
-      flowHeights[y * gridResolution + x] = flowHeight;
+/**
+ * Load all time steps with the given frame loader, several frames at a time
+ * Frames that fail to load are reported as missing, frames on a different
+ * grid than the first one as unexpected (and dropped). Frames are passed to
+ * onFrame in time order as soon as all earlier ones have settled (null for
+ * dropped frames). An aborted load rejects instead of reporting the
+ * remaining frames as missing.
+ */
+async function preloadFrames<T extends { extent: ExtentData; width: number; height: number }>(
+  config: AvalancheConfig,
+  variable: ResultVariableConfig | undefined,
+  loadFrame: (time: number, signal?: AbortSignal) => Promise<T>,
+  onProgress?: FrameProgressHandler,
+  options: FrameLoadOptions = {},
+  onFrame?: (time: number, frame: T | null) => void
+): Promise<FrameLoadResult<T>> {
+  const { concurrency = DEFAULT_LOAD_CONCURRENCY, signal } = options;
+  const timeSteps = generateTimeSteps(config);
+  const warnings: FrameWarning[] = [];
+  const label = (variable?.name ?? 'Flow height').toLowerCase();
+  const frameCache = new Map<number, T>();
+  const settled: (T | null | undefined)[] = new Array(timeSteps.length);
+  let first: T | null = null;
+  let nextIndex = 0;
+  let loadedCount = 0;
+
+  // Frames finish in any order, the grid is checked in time order
+  const deliver = () => {
+    while (nextIndex < timeSteps.length && settled[nextIndex] !== undefined) {
+      const time = timeSteps[nextIndex];
+      let frame = settled[nextIndex] ?? null;
+      nextIndex++;
 
-      if (flowHeight > 0) {
-        nonZeroCount++;
-        if (flowHeight > maxHeight) {
-          maxHeight = flowHeight;
+      if (frame) {
+        first ??= frame;
+        const { extent } = first;
+        const tolerance = ((extent.xmax - extent.xmin) / first.width) * EXTENT_TOLERANCE;
+        if (
+          frame.width !== first.width ||
+          frame.height !== first.height ||
+          !isSameExtent(frame.extent, extent, tolerance)
+        ) {
+          warnings.push({
+            kind: 'unexpected',
+            time,
+            file: getFrameFileName(config, time, variable),
+            message: `${label} frame has a different grid than the first frame, skipped`,
+          });
+          frame = null;
+        } else {
+          frameCache.set(time, frame);
         }
       }
+
+      onFrame?.(time, frame);
     }
+  };
+
+  await mapConcurrent(
+    timeSteps,
+    concurrency,
+    async (time, index) => {
+      let frame: T | null = null;
+      try {
+        frame = await loadFrame(time, signal);
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        warnings.push({
+          kind: 'missing',
+          time,
+          file: getFrameFileName(config, time, variable),
+          message: `${label} frame could not be loaded: ${(error as Error).message}`,
+        });
+      }
+
+      loadedCount++;
+      onProgress?.(loadedCount, timeSteps.length, time);
+      settled[index] = frame;
+      deliver();
+    },
+    signal
+  );
+
+  warnings.sort((a, b) => (a.time ?? 0) - (b.time ?? 0));
+  return { frames: frameCache, warnings };
+}
+
+/**
+ * Report duplicate times in the frame list and local files that belong to
+ * no time step of any result variable (nor are the DEM)
+ */
+function findUnexpectedFrames(config: AvalancheConfig): FrameWarning[] {
+  const warnings: FrameWarning[] = [];
+
+  const seen = new Set<number>();
+  config.frames?.forEach((frame) => {
+    if (seen.has(frame.time)) {
+      warnings.push({
+        kind: 'unexpected',
+        time: frame.time,
+        file: frame.file,
+        message: 'time step is listed more than once, the first entry is used',
+      });
+    }
+    seen.add(frame.time);
+  });
+
+  if (config.files) {
+    const timeSteps = generateTimeSteps(config);
+    const referenced = new Set<File>();
+    if (config.dem && config.files[config.dem]) {
+      referenced.add(config.files[config.dem]);
+    }
+    getResultVariables(config).forEach((variable) => {
+      timeSteps.forEach((time) => {
+        const file = config.files![getFrameFileName(config, time, variable)];
+        if (file) referenced.add(file);
+      });
+    });
+
+    const reported = new Set<File>();
+    Object.values(config.files).forEach((file) => {
+      if (referenced.has(file) || reported.has(file)) return;
+      reported.add(file);
+      warnings.push({
+        kind: 'unexpected',
+        time: null,
+        file: file.name,
+        message: 'file does not match any time step',
+      });
+    });
   }
 
-  return {
-    flowHeights,
-    extent,
-    width: gridResolution,
-    height: gridResolution,
-    maxHeight,
-    nonZeroCount,
-  };
+  return warnings;
 }
 
 /**
  * Preload all frames for an avalanche simulation
- * Returns a Map of time -> FlowHeightData
+ * Returns a Map of time -> FlowHeightData and the frame warnings; onFrame
+ * receives the frames in time order while loading.
  */
 export async function preloadAllFrames(
   config: AvalancheConfig,
-  gridResolution: number,
-  onProgress?: (loaded: number, total: number) => void
-): Promise<Map<number, FlowHeightData>> {
-  const timeSteps = generateTimeSteps(config);
-  const frameCache = new Map<number, FlowHeightData>();
-  let loadedCount = 0;
-
-  for (const time of timeSteps) {
-    try {
-      const url = getTiffUrl(config, time);
-      const data = await loadTiffFrame(url, gridResolution);
-      frameCache.set(time, data);
-    } catch (error) {
-      console.error(`Failed to load frame ${time}s:`, error);
-    }
+  maxCells: number,
+  onProgress?: FrameProgressHandler,
+  options: FrameLoadOptions = {},
+  onFrame?: (time: number, frame: FlowHeightData | null) => void
+): Promise<FrameLoadResult<FlowHeightData>> {
+  // The cached frames are revalidated once for the whole load
+  const checkCache = createCacheCheck(options.signal);
+  const result = await preloadFrames(
+    config,
+    undefined,
+    (time, signal) =>
+      loadTiffFrame(getTiffUrl(config, time), maxCells, config.wkid, config.format, signal, checkCache),
+    onProgress,
+    options,
+    onFrame
+  );
 
-    loadedCount++;
-    onProgress?.(loadedCount, timeSteps.length);
-  }
+  return { frames: result.frames, warnings: [...findUnexpectedFrames(config), ...result.warnings] };
+}
 
-  console.log(`Loaded ${frameCache.size}/${timeSteps.length} frames for ${config.name}`);
-  return frameCache;
+/**
+ * Preload all frames of an additional result variable
+ * Returns a Map of time -> ResultFrameData and the frame warnings
+ */
+export async function preloadVariableFrames(
+  config: AvalancheConfig,
+  variable: ResultVariableConfig,
+  maxCells: number,
+  onProgress?: FrameProgressHandler,
+  options: FrameLoadOptions = {}
+): Promise<FrameLoadResult<ResultFrameData>> {
+  // The cached frames are revalidated once for the whole load
+  const checkCache = createCacheCheck(options.signal);
+  return preloadFrames(
+    config,
+    variable,
+    (time, signal) =>
+      decodeFrame(
+        getTiffUrl(config, time, variable),
+        maxCells,
+        config.wkid ?? WEB_MERCATOR_WKID,
+        config.format ?? 'geotiff',
+        signal,
+        checkCache
+      ),
+    onProgress,
+    options
+  );
 }
 
 /**
@@ -127,12 +567,12 @@ export async function preloadAllFrames(
  */
 export async function getAvalancheExtent(
   config: AvalancheConfig,
-  gridResolution: number
+  maxCells: number
 ): Promise<ExtentData | null> {
   try {
-    const firstTime = config.timeRange[0];
+    const [firstTime] = generateTimeSteps(config);
     const url = getTiffUrl(config, firstTime);
-    const data = await loadTiffFrame(url, gridResolution);
+    const data = await loadTiffFrame(url, maxCells, config.wkid, config.format);
     return data.extent;
   } catch (error) {
     console.error(`Failed to get extent for ${config.name}:`, error);
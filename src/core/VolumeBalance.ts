@@ -0,0 +1,56 @@
+import type { FlowHeightData, VolumeBalanceResult, VolumeSample } from '../config/types';
+import { VOLUME_BALANCE_TOLERANCE } from '../config/constants';
+import { getCellArea } from '../utils/gridUtils';
+
+/**
+ * Integrate flow height times cell area for a frame (m³)
+ */
+export function computeFrameVolume(frame: FlowHeightData): number {
+  const cellArea = getCellArea(frame.extent, frame.width, frame.height);
+  let sum = 0;
+  for (let i = 0; i < frame.flowHeights.length; i++) {
+    sum += frame.flowHeights[i];
+  }
+  return sum * cellArea;
+}
+
+/**
+ * Compute the volume in motion per time step and flag unexpected changes
+ *
+ * A frame is flagged when it is missing, when its volume changes by more than
+ * the step tolerance relative to the previous loaded frame, or when it exceeds
+ * the release volume by more than the release tolerance.
+ */
+export function analyzeVolumeBalance(
+  timeSteps: number[],
+  frames: Map<number, FlowHeightData>,
+  releaseVolume: number | null
+): VolumeBalanceResult {
+  const samples: VolumeSample[] = [];
+  let previousVolume: number | null = null;
+
+  for (const time of timeSteps) {
+    const frame = frames.get(time);
+    if (!frame) {
+      samples.push({ time, volume: null, change: null, flag: 'missing' });
+      continue;
+    }
+
+    const volume = computeFrameVolume(frame);
+    const change = previousVolume ? (volume - previousVolume) / previousVolume : null;
+
+    let flag: VolumeSample['flag'] = null;
+    if (change !== null && change > VOLUME_BALANCE_TOLERANCE.step) {
+      flag = 'gain';
+    } else if (change !== null && change < -VOLUME_BALANCE_TOLERANCE.step) {
+      flag = 'loss';
+    } else if (releaseVolume && volume > releaseVolume * (1 + VOLUME_BALANCE_TOLERANCE.release)) {
+      flag = 'gain';
+    }
+
+    samples.push({ time, volume, change, flag });
+    previousVolume = volume;
+  }
+
+  return { releaseVolume, samples };
+}
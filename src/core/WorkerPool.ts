@@ -0,0 +1,275 @@
+import type {
+  GroundGrid,
+  MeshColoring,
+  MeshGeometry,
+  RasterFormat,
+  ResultFrameData,
+} from '../config/types';
+import { WORKER_COUNT } from '../config/constants';
+import {
+  runFrameTask,
+  type FrameTask,
+  type FrameTaskResult,
+  type FrameWorkerResponse,
+} from '../workers/frameTasks';
+
+/**
+ * Task waiting for or running on a worker
+ */
+interface PendingTask {
+  id: number;
+  task: FrameTask;
+  worker: Worker | null;
+  resolve: (result: FrameTaskResult) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Pool of web workers decoding frames and building mesh vertex buffers off
+ * the main thread. Each worker runs one task at a time, further tasks are
+ * queued. Without worker support the tasks run on the main thread.
+ * Ground grids of mesh tasks are registered once and sent to each worker
+ * with its first task using them, not copied with every task.
+ */
+export class WorkerPool {
+  private workers: Worker[] = [];
+  private idleWorkers: Worker[] = [];
+  private queue: PendingTask[] = [];
+  private running: Map<number, PendingTask> = new Map();
+  private nextId = 0;
+  private grounds: Map<number, GroundGrid> = new Map();
+  private releasedGrounds: Set<number> = new Set();
+  private workerGrounds: Map<Worker, Set<number>> = new Map();
+  private nextGroundId = 0;
+
+  constructor(size: number) {
+    if (typeof Worker === 'undefined') return;
+
+    for (let i = 0; i < size; i++) {
+      const worker = new Worker(new URL('../workers/frameWorker.ts', import.meta.url), {
+        type: 'module',
+      });
+      worker.addEventListener('message', (event: MessageEvent<FrameWorkerResponse>) => {
+        this.handleResponse(worker, event.data);
+      });
+      worker.addEventListener('error', (event) => {
+        this.handleWorkerError(worker, event.message);
+      });
+      this.workers.push(worker);
+      this.idleWorkers.push(worker);
+      this.workerGrounds.set(worker, new Set());
+    }
+  }
+
+  /**
+   * Register the ground grid of mesh tasks, returning its id
+   */
+  registerGround(ground: GroundGrid): number {
+    const groundId = this.nextGroundId++;
+    this.grounds.set(groundId, ground);
+    return groundId;
+  }
+
+  /**
+   * Release a ground grid once no queued task uses it anymore
+   */
+  releaseGround(groundId: number): void {
+    this.releasedGrounds.add(groundId);
+    this.dropReleasedGrounds();
+  }
+
+  /**
+   * Fetch and decode a frame file onto a grid of at most maxCells cells
+   */
+  decodeFrame(
+    url: string,
+    maxCells: number,
+    fallbackWkid: number,
+    format: RasterFormat,
+    signal?: AbortSignal
+  ): Promise<ResultFrameData> {
+    // Workers resolve relative URLs against their own script
+    const absoluteUrl = new URL(url, document.baseURI).href;
+    return this.run(
+      { type: 'decode', url: absoluteUrl, maxCells, fallbackWkid, format },
+      signal
+    ) as Promise<ResultFrameData>;
+  }
+
+  /**
+   * Build the vertex buffers of a flow mesh (see buildMeshGeometry)
+   * @param groundId - Ground grid registered with registerGround
+   */
+  buildMeshGeometry(
+    flowHeights: Float32Array,
+    width: number,
+    height: number,
+    groundId: number,
+    exaggerationFactor: number,
+    flattenPasses: number,
+    coloring?: MeshColoring,
+    signal?: AbortSignal
+  ): Promise<MeshGeometry | null> {
+    return this.run(
+      { type: 'mesh', flowHeights, width, height, groundId, exaggerationFactor, flattenPasses, coloring },
+      signal
+    ) as Promise<MeshGeometry | null>;
+  }
+
+  /**
+   * Terminate all workers, pending tasks are rejected
+   */
+  dispose(): void {
+    const error = new Error('Worker pool disposed');
+    [...this.queue, ...this.running.values()].forEach((pending) => pending.reject(error));
+    this.queue = [];
+    this.running.clear();
+    this.workers.forEach((worker) => worker.terminate());
+    this.workers = [];
+    this.idleWorkers = [];
+    this.grounds.clear();
+    this.releasedGrounds.clear();
+    this.workerGrounds.clear();
+  }
+
+  /**
+   * Queue a task, rejecting with the abort reason once the signal is aborted
+   */
+  private async run(task: FrameTask, signal?: AbortSignal): Promise<FrameTaskResult> {
+    signal?.throwIfAborted();
+
+    if (this.workers.length === 0) {
+      return (await runFrameTask(task, this.grounds, signal)).result;
+    }
+
+    return new Promise((resolve, reject) => {
+      const pending: PendingTask = { id: this.nextId++, task, worker: null, resolve, reject };
+
+      const abort = () => this.cancel(pending, signal!.reason);
+      signal?.addEventListener('abort', abort, { once: true });
+      pending.resolve = (result) => {
+        signal?.removeEventListener('abort', abort);
+        resolve(result);
+      };
+      pending.reject = (error) => {
+        signal?.removeEventListener('abort', abort);
+        reject(error);
+      };
+
+      this.queue.push(pending);
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Hand queued tasks to idle workers
+   */
+  private dispatch(): void {
+    while (this.queue.length > 0 && this.idleWorkers.length > 0) {
+      const pending = this.queue.shift()!;
+      const worker = this.idleWorkers.pop()!;
+      pending.worker = worker;
+      this.running.set(pending.id, pending);
+      if (pending.task.type === 'mesh') {
+        this.sendGround(worker, pending.task.groundId);
+      }
+      worker.postMessage({ id: pending.id, task: pending.task });
+    }
+    this.dropReleasedGrounds();
+  }
+
+  /**
+   * Send a ground grid to a worker that does not have it yet
+   */
+  private sendGround(worker: Worker, groundId: number): void {
+    const sent = this.workerGrounds.get(worker)!;
+    const ground = this.grounds.get(groundId);
+    if (sent.has(groundId) || !ground) return;
+
+    worker.postMessage({ type: 'setGround', groundId, ground });
+    sent.add(groundId);
+  }
+
+  /**
+   * Forget released ground grids that no queued task uses, also in the workers
+   * Tasks already handed to a worker run before its release message.
+   */
+  private dropReleasedGrounds(): void {
+    for (const groundId of this.releasedGrounds) {
+      const inUse = this.queue.some(
+        (pending) => pending.task.type === 'mesh' && pending.task.groundId === groundId
+      );
+      if (inUse) continue;
+
+      this.releasedGrounds.delete(groundId);
+      this.grounds.delete(groundId);
+      this.workerGrounds.forEach((sent, worker) => {
+        if (sent.delete(groundId)) {
+          worker.postMessage({ type: 'releaseGround', groundId });
+        }
+      });
+    }
+  }
+
+  /**
+   * Drop a queued task or tell its worker to abort it
+   */
+  private cancel(pending: PendingTask, reason: Error): void {
+    const index = this.queue.indexOf(pending);
+    if (index !== -1) {
+      this.queue.splice(index, 1);
+      this.dropReleasedGrounds();
+    } else if (pending.worker) {
+      // The worker stays busy until it reports the aborted task
+      pending.worker.postMessage({ id: pending.id, cancel: true });
+    }
+    pending.reject(reason);
+  }
+
+  /**
+   * Settle a task with a worker's response and free the worker
+   */
+  private handleResponse(worker: Worker, response: FrameWorkerResponse): void {
+    const pending = this.running.get(response.id);
+    this.running.delete(response.id);
+    this.idleWorkers.push(worker);
+
+    if (pending) {
+      if (response.error) {
+        const error = new Error(response.error.message);
+        error.name = response.error.name;
+        pending.reject(error);
+      } else {
+        pending.resolve(response.result ?? null);
+      }
+    }
+
+    this.dispatch();
+  }
+
+  /**
+   * Fail the task of a worker that raised an uncaught error
+   */
+  private handleWorkerError(worker: Worker, message: string): void {
+    const pending = Array.from(this.running.values()).find((p) => p.worker === worker);
+    if (!pending) return;
+
+    this.running.delete(pending.id);
+    this.idleWorkers.push(worker);
+    pending.reject(new Error(`Frame worker failed: ${message}`));
+    this.dispatch();
+  }
+}
+
+// Singleton instance
+let workerPool: WorkerPool | null = null;
+
+/**
+ * Get the shared worker pool
+ */
+export function getWorkerPool(): WorkerPool {
+  if (!workerPool) {
+    workerPool = new WorkerPool(WORKER_COUNT);
+  }
+  return workerPool;
+}
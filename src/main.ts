@@ -2,13 +2,20 @@
 import { setAssetPath } from "@esri/calcite-components";
 import { defineCustomElements } from "@esri/calcite-components/dist/loader";
 import "@esri/calcite-components/dist/calcite/calcite.css";
+import { ARCGIS_ASSET_PATH, CALCITE_ASSET_PATH } from "./config/constants";
 
-// Set Calcite assets path to CDN and define custom elements
-setAssetPath("https://js.arcgis.com/calcite-components/3.0.3/assets");
+// Set Calcite assets path (CDN unless configured) and define custom elements
+setAssetPath(CALCITE_ASSET_PATH);
 defineCustomElements(window);
 
 // ArcGIS Map Components
 import "@arcgis/map-components/dist/components/arcgis-scene";
+import esriConfig from "@arcgis/core/config";
+
+// Serve ArcGIS assets locally if configured (restricted networks)
+if (ARCGIS_ASSET_PATH) {
+  esriConfig.assetsPath = ARCGIS_ASSET_PATH;
+}
 
 // ArcGIS Core
 import "@arcgis/core/assets/esri/themes/light/main.css";
@@ -16,8 +23,10 @@ import type SceneView from "@arcgis/core/views/SceneView";
 import Graphic from "@arcgis/core/Graphic";
 import GraphicsLayer from "@arcgis/core/layers/GraphicsLayer";
 import Polygon from "@arcgis/core/geometry/Polygon";
-import { geodesicArea } from "@arcgis/core/geometry/geometryEngine";
 import SimpleFillSymbol from "@arcgis/core/symbols/SimpleFillSymbol";
+import SimpleMarkerSymbol from "@arcgis/core/symbols/SimpleMarkerSymbol";
+import type Point from "@arcgis/core/geometry/Point";
+import type Polyline from "@arcgis/core/geometry/Polyline";
 
 // Type for the arcgis-scene element
 interface ArcgisSceneElement extends HTMLElement {
@@ -26,9 +35,43 @@ interface ArcgisSceneElement extends HTMLElement {
 
 // App modules
 import { getSimulationManager } from "./core/SimulationManager";
+import { createLocalConfig, readDroppedFiles } from "./core/LocalSimulationLoader";
+import { loadSimulationPackage } from "./core/SimulationPackage";
 import { getElevationService } from "./core/ElevationService";
-import { createSnowCoverLayer, createSlopesLayer } from "./core/SnowCoverLayer";
-import type { AvalancheConfig } from "./config/types";
+import { getDataCache } from "./core/DataCache";
+import { createSnowCoverLayer } from "./core/SnowCoverLayer";
+import { getTerrainClasses } from "./core/TerrainAnalysis";
+import { createBasemap } from "./core/BasemapProvider";
+import { ProfileTool } from "./core/ProfileTool";
+import type { AvalancheSimulation } from "./core/AvalancheSimulation";
+import type { LocalDem } from "./core/LocalDem";
+import type {
+  AnimationEventHandler,
+  AvalancheConfig,
+  ColorMode,
+  ComparisonMode,
+  FrameStatistics,
+  ProbeSeries,
+  ResultVariableConfig,
+  SimulationProduct,
+} from "./config/types";
+import {
+  FLOW_HEIGHT_VARIABLE_ID,
+  ENVELOPE_COLOR_STOPS,
+  ARRIVAL_COLOR_STOPS,
+  DIFFERENCE_COLOR_STOPS,
+  PROBABILITY_COLOR_STOPS,
+  DEFAULT_EXCEEDANCE_THRESHOLDS,
+  PROFILE_STYLE,
+  WEB_MERCATOR_WKID,
+  DEFAULT_TERRAIN_ANALYSIS_CONFIG,
+} from "./config/constants";
+import { renderClassLegend, renderColorRampLegend } from "./utils/legendUtils";
+import { renderLineChart, renderSparkline, type ChartSeries } from "./utils/chartUtils";
+import { samplePath, type ProfileSample } from "./utils/profileUtils";
+import { getGroundScale } from "./utils/gridUtils";
+import { calculatePolygonArea } from "./utils/geometryUtils";
+import { isAbortError } from "./utils/asyncUtils";
 
 // Styles
 import "./styles/main.css";
@@ -41,6 +84,57 @@ let speedSelect: HTMLCalciteSelectElement | null;
 let smoothingSelect: HTMLCalciteSelectElement | null;
 let flattenSelect: HTMLCalciteSelectElement | null;
 let exaggerationSelect: HTMLCalciteSelectElement | null;
+let cacheUsageEl: HTMLElement | null;
+let clearCacheBtn: HTMLCalciteButtonElement | null;
+let variableSelect: HTMLCalciteSelectElement | null;
+let colorModeSelect: HTMLCalciteSelectElement | null;
+let hazardZoneBlock: HTMLCalciteBlockElement | null;
+let hazardZoneSummaryEl: HTMLElement | null;
+let flowLegendBlock: HTMLCalciteBlockElement | null;
+let flowLegendEl: HTMLElement | null;
+let envelopeSwitch: HTMLCalciteSwitchElement | null;
+let envelopeLegendBlock: HTMLCalciteBlockElement | null;
+let envelopeLegendEl: HTMLElement | null;
+let arrivalSwitch: HTMLCalciteSwitchElement | null;
+let arrivalThresholdSelect: HTMLCalciteSelectElement | null;
+let arrivalLegendBlock: HTMLCalciteBlockElement | null;
+let arrivalLegendEl: HTMLElement | null;
+let compareBlock: HTMLCalciteBlockElement | null;
+let compareSelect: HTMLCalciteSelectElement | null;
+let compareModeSelect: HTMLCalciteSelectElement | null;
+let compareLegendEl: HTMLElement | null;
+let compareWarningsEl: HTMLElement | null;
+let ensembleBlock: HTMLCalciteBlockElement | null;
+let ensembleVariableSelect: HTMLCalciteSelectElement | null;
+let ensembleThresholdInput: HTMLCalciteInputNumberElement | null;
+let ensembleLegendEl: HTMLElement | null;
+let ensembleMembersEl: HTMLElement | null;
+let ensembleAreaEl: HTMLElement | null;
+let ensembleWarningsEl: HTMLElement | null;
+let probeBlock: HTMLCalciteBlockElement | null;
+let probeChartsEl: HTMLElement | null;
+let probeCloseBtn: HTMLCalciteActionElement | null;
+let profileBtn: HTMLCalciteButtonElement | null;
+let profileBlock: HTMLCalciteBlockElement | null;
+let profileCloseBtn: HTMLCalciteActionElement | null;
+let profileElevationChartEl: HTMLElement | null;
+let profileFlowChartEl: HTMLElement | null;
+let runoutBlock: HTMLCalciteBlockElement | null;
+let runoutDistanceEl: HTMLElement | null;
+let travelAngleEl: HTMLElement | null;
+let dropHeightEl: HTMLElement | null;
+let maxFrontVelocityEl: HTMLElement | null;
+let frontVelocityChartEl: HTMLElement | null;
+let frameStatsBlock: HTMLCalciteBlockElement | null;
+let frameStatsEl: HTMLElement | null;
+let volumeBlock: HTMLCalciteBlockElement | null;
+let releaseVolumeEl: HTMLElement | null;
+let peakVolumeEl: HTMLElement | null;
+let finalVolumeEl: HTMLElement | null;
+let volumeChartEl: HTMLElement | null;
+let volumeFlagsEl: HTMLElement | null;
+let frameWarningsBlock: HTMLCalciteBlockElement | null;
+let frameWarningsEl: HTMLElement | null;
 let currentTimeSpan: HTMLElement | null;
 let statusEl: HTMLElement | null;
 let progressBar: HTMLCalciteProgressElement | null;
@@ -48,24 +142,68 @@ let progressText: HTMLElement | null;
 let loadingProgress: HTMLElement | null;
 let loadingOverlay: HTMLElement | null;
 let avalancheList: HTMLCalciteListElement | null;
+let openLocalBtn: HTMLCalciteButtonElement | null;
+let localFileInput: HTMLInputElement | null;
+let dropOverlay: HTMLElement | null;
 let avalancheNameEl: HTMLElement | null;
 let avalancheDescEl: HTMLElement | null;
 let releaseDepthEl: HTMLElement | null;
 let releaseAreaEl: HTMLElement | null;
 let demSourceEl: HTMLElement | null;
 let demResolutionEl: HTMLElement | null;
+let rasterCrsEl: HTMLElement | null;
+let displayGridEl: HTMLElement | null;
 
 // Application state
 const manager = getSimulationManager();
 let releaseZoneLayer: GraphicsLayer | null = null;
 let snowCoverLayer: __esri.Layer | null = null;
 let slopesLayer: __esri.Layer | null = null;
+let aspectLayer: __esri.Layer | null = null;
+let probeLayer: GraphicsLayer | null = null;
+let ground: __esri.Ground | null = null;
+
+let profileTool: ProfileTool | null = null;
+
+// Active profile (path samples, terrain elevations and frame subscriptions)
+let profileState: {
+  samples: ProfileSample[];
+  terrain: Float64Array;
+  sims: AvalancheSimulation[];
+  onFrame: AnimationEventHandler;
+} | null = null;
+
+// Pending point probe read
+let probeController: AbortController | null = null;
+
+// Exceedance thresholds set for the displayed ensemble, by variable id
+const ensembleThresholds = new Map<string, number>();
+
+// Active point probe (simulation, series and frame subscription)
+let probeState: {
+  sim: AvalancheSimulation;
+  series: ProbeSeries[];
+  onFrame: AnimationEventHandler;
+} | null = null;
+
+// Frame statistics entries (one per displayed simulation)
+let frameStatsEntries: {
+  sim: AvalancheSimulation;
+  stats: FrameStatistics[];
+  valuesEl: HTMLElement;
+  setCursor: (time: number) => void;
+}[] = [];
 
 // Opacity slider elements
 let snowCoverOpacitySlider: HTMLCalciteSliderElement | null;
 let slopesOpacitySlider: HTMLCalciteSliderElement | null;
 let releaseZoneOpacitySlider: HTMLCalciteSliderElement | null;
 
+// Aspect layer elements
+let aspectItem: HTMLCalciteListItemElement | null;
+let aspectSwitch: HTMLCalciteSwitchElement | null;
+let aspectLegendEl: HTMLElement | null;
+
 /**
  * Update status display
  */
@@ -166,59 +304,250 @@ function setupControls(): void {
 
   // Smoothing select
   if (smoothingSelect) {
-    smoothingSelect.addEventListener("calciteSelectChange", () => {
+    smoothingSelect.addEventListener("calciteSelectChange", async () => {
       const factor = parseInt(smoothingSelect!.value, 10);
-      if (manager.isPlayAllMode()) {
-        manager.setSmoothingAll(factor);
-      } else {
-        getSimulation()?.setSmoothing(factor);
+      try {
+        if (manager.isPlayAllMode()) {
+          await manager.setSmoothingAll(factor);
+        } else {
+          await getSimulation()?.setSmoothing(factor);
+          manager.getComparison()?.rebuild();
+        }
+      } catch (error) {
+        console.error("Failed to rebuild meshes:", error);
+        updateStatus(`Failed to rebuild meshes: ${(error as Error).message}`, "error");
       }
     });
   }
 
   // Flatten select
   if (flattenSelect) {
-    flattenSelect.addEventListener("calciteSelectChange", () => {
+    flattenSelect.addEventListener("calciteSelectChange", async () => {
       const passes = parseInt(flattenSelect!.value, 10);
-      if (manager.isPlayAllMode()) {
-        manager.setFlattenPassesAll(passes);
-      } else {
-        getSimulation()?.setFlattenPasses(passes);
+      try {
+        if (manager.isPlayAllMode()) {
+          await manager.setFlattenPassesAll(passes);
+        } else {
+          await getSimulation()?.setFlattenPasses(passes);
+          manager.getComparison()?.rebuild();
+        }
+      } catch (error) {
+        console.error("Failed to rebuild meshes:", error);
+        updateStatus(`Failed to rebuild meshes: ${(error as Error).message}`, "error");
       }
     });
   }
 
   // Exaggeration select
   if (exaggerationSelect) {
-    exaggerationSelect.addEventListener("calciteSelectChange", () => {
+    exaggerationSelect.addEventListener("calciteSelectChange", async () => {
       const factor = parseInt(exaggerationSelect!.value, 10);
+      try {
+        if (manager.isPlayAllMode()) {
+          await manager.setExaggerationAll(factor);
+        } else {
+          await getSimulation()?.setExaggeration(factor);
+          manager.getComparison()?.rebuild();
+        }
+      } catch (error) {
+        console.error("Failed to rebuild meshes:", error);
+        updateStatus(`Failed to rebuild meshes: ${(error as Error).message}`, "error");
+      }
+    });
+  }
+
+  // Result variable select
+  if (variableSelect) {
+    variableSelect.addEventListener("calciteSelectChange", async () => {
+      const variableId = variableSelect!.value;
+      updateStatus("Loading result variable...");
+      try {
+        if (manager.isPlayAllMode()) {
+          await manager.setVariableAll(variableId);
+        } else {
+          await getSimulation()?.setVariable(variableId, updateProgress);
+        }
+        updateFrameWarningsPanel();
+        updateFlowLegend();
+        updateStatus("Ready", "ready");
+      } catch (error) {
+        // Superseded by another variable switch
+        if (isAbortError(error)) return;
+        console.error("Failed to switch result variable:", error);
+        updateStatus(`Failed to load result variable: ${(error as Error).message}`, "error");
+      }
+    });
+  }
+
+  // Color mode select
+  if (colorModeSelect) {
+    colorModeSelect.addEventListener("calciteSelectChange", async () => {
+      const sim = getSimulation();
+      if (!sim || manager.isPlayAllMode()) return;
+
+      const mode = colorModeSelect!.value as ColorMode;
+      updateStatus(mode === "classified" ? "Classifying hazard zones..." : "Updating colors...");
+      try {
+        await sim.setColorMode(mode, updateProgress);
+        updateHazardZoneSummary();
+        updateFlowLegend();
+        updateStatus("Ready", "ready");
+      } catch (error) {
+        console.error("Failed to switch color mode:", error);
+        updateStatus(`Failed to classify hazard zones: ${(error as Error).message}`, "error");
+      }
+    });
+  }
+
+  // Static product switches (mutually exclusive)
+  if (envelopeSwitch) {
+    envelopeSwitch.addEventListener("calciteSwitchChange", () => {
+      if (envelopeSwitch!.checked && arrivalSwitch) {
+        arrivalSwitch.checked = false;
+      }
+      applyProductSelection();
+    });
+  }
+  if (arrivalSwitch) {
+    arrivalSwitch.addEventListener("calciteSwitchChange", () => {
+      if (arrivalSwitch!.checked && envelopeSwitch) {
+        envelopeSwitch.checked = false;
+      }
+      applyProductSelection();
+    });
+  }
+
+  // Arrival threshold select
+  if (arrivalThresholdSelect) {
+    arrivalThresholdSelect.addEventListener("calciteSelectChange", () => {
+      const threshold = parseFloat(arrivalThresholdSelect!.value);
       if (manager.isPlayAllMode()) {
-        manager.setExaggerationAll(factor);
+        manager.setArrivalThresholdAll(threshold);
+      } else {
+        getSimulation()?.setArrivalThreshold(threshold);
+      }
+    });
+  }
+
+  // Compare with another simulation
+  if (compareSelect) {
+    compareSelect.addEventListener("calciteSelectChange", async () => {
+      const otherId = compareSelect!.value;
+      if (!otherId) {
+        manager.stopComparison();
+        updateComparePanel();
+        await updateGround(getSimulation()?.getDem() ?? null);
+        return;
+      }
+
+      updateStatus("Comparing simulations...");
+      try {
+        const comparison = await manager.startComparison(otherId, updateProgress);
+        await updateGround(getFirstDem([comparison.getReference(), comparison.getOther()]));
+        comparison.setMode((compareModeSelect?.value ?? "frame") as ComparisonMode);
+        updateStatus("Ready", "ready");
+      } catch (error) {
+        // Superseded by a switch, which updates the UI itself
+        if (isAbortError(error)) return;
+        console.error("Failed to compare simulations:", error);
+        updateStatus(`Failed to compare: ${(error as Error).message}`, "error");
+        compareSelect!.value = "";
+      }
+      updateComparePanel();
+    });
+  }
+  if (compareModeSelect) {
+    compareModeSelect.addEventListener("calciteSelectChange", () => {
+      manager.getComparison()?.setMode(compareModeSelect!.value as ComparisonMode);
+    });
+  }
+
+  // Ensemble exceedance variable and threshold
+  if (ensembleVariableSelect) {
+    ensembleVariableSelect.addEventListener("calciteSelectChange", async () => {
+      const ensemble = manager.getEnsemble();
+      if (!ensemble) return;
+      const variableId = ensembleVariableSelect!.value;
+      const threshold = ensembleThresholds.get(variableId)
+        ?? DEFAULT_EXCEEDANCE_THRESHOLDS[variableId]
+        ?? ensemble.getThreshold();
+      await updateEnsemble(variableId, threshold);
+    });
+  }
+  if (ensembleThresholdInput) {
+    ensembleThresholdInput.addEventListener("calciteInputNumberChange", async () => {
+      const ensemble = manager.getEnsemble();
+      const threshold = parseFloat(ensembleThresholdInput!.value);
+      if (!ensemble || isNaN(threshold) || threshold < 0) return;
+      await updateEnsemble(ensemble.getVariable()?.id ?? FLOW_HEIGHT_VARIABLE_ID, threshold);
+    });
+  }
+
+  // Clear the persistent frame and elevation cache
+  if (clearCacheBtn) {
+    clearCacheBtn.addEventListener("click", async () => {
+      try {
+        await getDataCache().clear();
+        updateStatus("Cache cleared", "ready");
+      } catch (error) {
+        console.error("Failed to clear the cache:", error);
+        updateStatus(`Failed to clear the cache: ${(error as Error).message}`, "error");
+      }
+      await updateCacheUsage();
+    });
+  }
+
+  // Close point probe
+  if (probeCloseBtn) {
+    probeCloseBtn.addEventListener("click", () => {
+      closeProbe();
+    });
+  }
+
+  // Profile tool
+  if (profileBtn) {
+    profileBtn.addEventListener("click", async () => {
+      if (!profileTool) return;
+      updateStatus("Draw a profile path, double-click to finish");
+      const path = await profileTool.draw();
+      if (path) {
+        await showProfile(path);
       } else {
-        getSimulation()?.setExaggeration(factor);
+        updateStatus("Ready", "ready");
       }
     });
   }
+  if (profileCloseBtn) {
+    profileCloseBtn.addEventListener("click", () => {
+      closeProfile();
+    });
+  }
 
   // Time slider
   if (timeSlider) {
     timeSlider.addEventListener("calciteSliderInput", () => {
-      const time = timeSlider!.value as number;
-      if (manager.isPlayAllMode()) {
-        // Pause all and seek all to the same time
-        manager.pauseAll();
-        manager.seekAllToTime(time);
-        onPlayStateChange(false);
-      } else {
-        const sim = getSimulation();
-        if (!sim) return;
-        sim.pause();
-        sim.seekToTime(time);
-      }
+      seekTo(timeSlider!.value as number);
     });
   }
 }
 
+/**
+ * Pause playback and seek the displayed simulations to a time
+ */
+function seekTo(time: number): void {
+  if (manager.isPlayAllMode()) {
+    // Pause all and seek all to the same time
+    manager.pauseAll();
+    manager.seekAllToTime(time);
+    onPlayStateChange(false);
+  } else {
+    const sim = getSimulation();
+    if (!sim) return;
+    sim.pause();
+    sim.seekToTime(time);
+  }
+}
+
 /**
  * Update UI when simulation frame changes
  */
@@ -229,6 +558,9 @@ function onFrameChange(time: number): void {
   if (timeSlider) {
     timeSlider.value = time;
   }
+  renderFrontVelocityChart();
+  renderVolumeChart();
+  renderFrameStats();
 }
 
 /**
@@ -260,6 +592,44 @@ function subscribeToSimulation(): void {
       onPlayStateChange(event.isPlaying);
     }
   });
+
+  sim.on("bufferingChange", (event) => {
+    if (sim !== getSimulation()) return;
+    if (playBtn) {
+      playBtn.loading = !!event.isBuffering;
+    }
+    if (event.isBuffering) {
+      updateStatus("Buffering - waiting for frames to load...");
+    } else {
+      updateStatus(sim.isLoading() ? "Playing - loading remaining frames..." : "Ready", "ready");
+    }
+  });
+
+  sim.on("loadComplete", () => {
+    if (sim !== getSimulation() || manager.isPlayAllMode()) return;
+
+    // Panels derived from all frames were computed from the first ones
+    updateHazardZoneSummary();
+    updateRunoutPanel();
+    updateVolumePanel();
+    updateFrameWarningsPanel();
+    updateFrameStatsPanel();
+    updateReadyStatus("Ready");
+    updateCacheUsage();
+  });
+}
+
+/**
+ * Show a ready status, unless the active simulation lies on flat ground
+ * because its elevations were unavailable
+ */
+function updateReadyStatus(message: string): void {
+  const elevationError = getSimulation()?.getElevationError();
+  if (elevationError) {
+    updateStatus(`${message} - flat ground used: ${elevationError.message}`, "error");
+  } else {
+    updateStatus(message, "ready");
+  }
 }
 
 /**
@@ -276,16 +646,710 @@ function updateSliderForConfig(config: AvalancheConfig): void {
 }
 
 /**
- * Calculate area of a GeoJSON polygon using geodesic calculation
+ * Fill the compare select with the other avalanches (single avalanche mode only)
  */
-function calculatePolygonArea(geoJsonPolygon: { type: string; coordinates: number[][][] }): number {
-  const polygon = new Polygon({
-    rings: geoJsonPolygon.coordinates,
-    spatialReference: { wkid: 4326 }
+function populateCompareSelect(): void {
+  if (!compareBlock || !compareSelect) return;
+
+  const sim = manager.isPlayAllMode() ? null : getSimulation();
+  compareBlock.hidden = !sim;
+  if (!sim) return;
+
+  compareSelect.innerHTML = "";
+  const noneOption = document.createElement("calcite-option");
+  noneOption.value = "";
+  noneOption.textContent = "None";
+  noneOption.selected = true;
+  compareSelect.appendChild(noneOption);
+
+  manager.getConfigs()
+    .filter((config) => config.id !== sim.getConfig().id)
+    .forEach((config) => {
+      const option = document.createElement("calcite-option");
+      option.value = config.id;
+      option.textContent = config.name;
+      compareSelect!.appendChild(option);
+    });
+
+  updateComparePanel();
+}
+
+/**
+ * Show the legend and warnings of the active comparison
+ */
+function updateComparePanel(): void {
+  if (!compareBlock) return;
+
+  const comparison = manager.getComparison();
+  compareBlock.description = comparison
+    ? `${comparison.getOther().getConfig().name} minus ${comparison.getReference().getConfig().name}`
+    : "";
+  if (compareLegendEl) {
+    compareLegendEl.hidden = !comparison;
+  }
+
+  if (compareWarningsEl) {
+    compareWarningsEl.innerHTML = "";
+    comparison?.getWarnings().forEach((warning) => {
+      const item = document.createElement("li");
+      item.textContent = warning;
+      compareWarningsEl!.appendChild(item);
+    });
+  }
+}
+
+/**
+ * Show the controls and summary of the displayed ensemble
+ */
+function updateEnsemblePanel(): void {
+  if (!ensembleBlock) return;
+
+  const ensemble = manager.getEnsemble();
+  ensembleBlock.hidden = !ensemble;
+  if (!ensemble) return;
+
+  const variable = ensemble.getVariable();
+  const threshold = ensemble.getThreshold();
+
+  if (ensembleVariableSelect) {
+    ensembleVariableSelect.innerHTML = "";
+    ensemble.getVariables().forEach((v) => {
+      const option = document.createElement("calcite-option");
+      option.value = v.id;
+      option.textContent = v.name;
+      option.selected = v.id === variable?.id;
+      ensembleVariableSelect!.appendChild(option);
+    });
+  }
+  if (ensembleThresholdInput) {
+    ensembleThresholdInput.value = `${threshold}`;
+    ensembleThresholdInput.suffixText = variable?.unit ?? "";
+  }
+
+  ensembleBlock.description = variable
+    ? `Share of members with max ${variable.name.toLowerCase()} > ${threshold} ${variable.unit}`
+    : "";
+
+  if (ensembleMembersEl) {
+    ensembleMembersEl.textContent = ensemble.getMembers().map((m) => m.getConfig().name).join(", ");
+  }
+  if (ensembleAreaEl) {
+    ensembleAreaEl.textContent = `${ensemble.getAreaAbove(0.5).toFixed(0)} m²`;
+  }
+  if (ensembleWarningsEl) {
+    ensembleWarningsEl.innerHTML = "";
+    ensemble.getWarnings().forEach((warning) => {
+      const item = document.createElement("li");
+      item.textContent = warning;
+      ensembleWarningsEl!.appendChild(item);
+    });
+  }
+}
+
+/**
+ * Recompute the ensemble probability map for a variable and threshold,
+ * remembering the threshold for the variable
+ */
+async function updateEnsemble(variableId: string, threshold: number): Promise<void> {
+  const ensemble = manager.getEnsemble();
+  if (!ensemble) return;
+  ensembleThresholds.set(variableId, threshold);
+
+  updateStatus("Computing exceedance probability...");
+  try {
+    await ensemble.update(variableId, threshold, updateProgress);
+    updateStatus("Ready", "ready");
+  } catch (error) {
+    console.error("Failed to compute exceedance probability:", error);
+    updateStatus(`Failed to compute exceedance probability: ${(error as Error).message}`, "error");
+  }
+  updateEnsemblePanel();
+}
+
+/**
+ * Populate the result variable select
+ */
+function populateVariableSelect(variables: ResultVariableConfig[], activeId: string): void {
+  if (!variableSelect) return;
+
+  variableSelect.innerHTML = "";
+  variables.forEach((variable) => {
+    const option = document.createElement("calcite-option");
+    option.value = variable.id;
+    option.label = `${variable.name} (${variable.unit})`;
+    option.textContent = option.label;
+    option.selected = variable.id === activeId;
+    variableSelect!.appendChild(option);
+  });
+}
+
+/**
+ * Sync the color mode select with the active simulation
+ */
+function updateColorModeSelect(): void {
+  if (!colorModeSelect) return;
+
+  const sim = manager.isPlayAllMode() ? null : getSimulation();
+  const hasHazardZones = !!sim?.hasHazardZones();
+  colorModeSelect.disabled = !hasHazardZones;
+  colorModeSelect.value = hasHazardZones ? sim!.getColorMode() : "continuous";
+}
+
+/**
+ * Show the per-class area summary when hazard zones are displayed
+ */
+function updateHazardZoneSummary(): void {
+  if (!hazardZoneBlock || !hazardZoneSummaryEl) return;
+
+  const sim = manager.isPlayAllMode() ? null : getSimulation();
+  if (!sim || sim.getColorMode() !== "classified") {
+    hazardZoneBlock.hidden = true;
+    return;
+  }
+
+  const hazardZones = sim.getConfig().hazardZones;
+  const variable = sim.getVariables().find((v) => v.id === hazardZones?.variable);
+  const unit = variable?.unit ?? "";
+  hazardZoneBlock.description = hazardZones?.returnPeriod
+    ? `Max ${variable?.name ?? ""}, return period ${hazardZones.returnPeriod} years`
+    : `Max ${variable?.name ?? ""} over all time steps`;
+
+  const summary = sim.getHazardZoneSummary();
+  hazardZoneSummaryEl.innerHTML = "";
+
+  summary.forEach((entry, i) => {
+    const next = summary[i + 1];
+    const range = next ? `${entry.min}–${next.min} ${unit}` : `≥ ${entry.min} ${unit}`;
+
+    const swatch = document.createElement("span");
+    swatch.className = "class-swatch";
+    swatch.style.background = `rgba(${entry.color[0]}, ${entry.color[1]}, ${entry.color[2]}, ${entry.color[3] / 255})`;
+
+    const name = document.createElement("span");
+    name.textContent = entry.name;
+
+    const rangeEl = document.createElement("span");
+    rangeEl.className = "class-range";
+    rangeEl.textContent = range;
+
+    const area = document.createElement("span");
+    area.className = "class-area";
+    area.textContent = `${entry.area.toFixed(0)} m²`;
+
+    hazardZoneSummaryEl!.append(swatch, name, rangeEl, area);
+  });
+
+  hazardZoneBlock.hidden = false;
+}
+
+/**
+ * Apply the static product switches and threshold to the displayed simulation(s)
+ */
+function applyProductSelection(): void {
+  let product: SimulationProduct | null = null;
+  if (envelopeSwitch?.checked) {
+    product = "envelope";
+  } else if (arrivalSwitch?.checked) {
+    product = "arrivalTime";
+  }
+  const threshold = parseFloat(arrivalThresholdSelect?.value ?? "");
+
+  if (manager.isPlayAllMode()) {
+    if (!isNaN(threshold)) manager.setArrivalThresholdAll(threshold);
+    manager.setProductAll(product);
+  } else {
+    const sim = getSimulation();
+    if (sim && !isNaN(threshold)) sim.setArrivalThreshold(threshold);
+    sim?.setProduct(product);
+  }
+
+  if (envelopeLegendBlock) {
+    envelopeLegendBlock.hidden = product !== "envelope";
+  }
+  if (arrivalLegendBlock) {
+    arrivalLegendBlock.hidden = product !== "arrivalTime";
+    arrivalLegendBlock.description = `First time flow height ≥ ${arrivalThresholdSelect?.value ?? "-"} m`;
+  }
+  updateFlowLegend();
+}
+
+/**
+ * Render the legend of the time step colors from the active result
+ * variable's color stops and unit, hidden while a static product or hazard
+ * zones are shown
+ */
+function updateFlowLegend(): void {
+  if (!flowLegendBlock || !flowLegendEl) return;
+
+  const [sim] = getDisplayedSimulations();
+  const staticProduct = !!envelopeSwitch?.checked || !!arrivalSwitch?.checked;
+  if (!sim || staticProduct || sim.getColorMode() === "classified") {
+    flowLegendBlock.hidden = true;
+    return;
+  }
+
+  const variable = sim.getActiveVariable();
+  flowLegendBlock.hidden = false;
+  flowLegendBlock.heading = variable.name;
+  renderColorRampLegend(flowLegendEl, sim.getVariableColorStops(variable), `${variable.name} (${variable.unit})`);
+}
+
+/**
+ * Probe all result variables of the simulation under a clicked location
+ */
+async function probeAt(mapPoint: Point): Promise<void> {
+  const { x, y } = mapPoint;
+  const candidates = manager.isPlayAllMode()
+    ? manager.getAllSimulations()
+    : [getSimulation()].filter((sim): sim is AvalancheSimulation => !!sim);
+  const sim = candidates.find((candidate) => candidate.containsPoint(x, y));
+  if (!sim) return;
+
+  updateStatus("Reading point time series...");
+
+  // A later click (or closing the probe) cancels this one
+  probeController?.abort();
+  const controller = new AbortController();
+  probeController = controller;
+
+  try {
+    const series = await sim.probe(x, y, controller.signal);
+    probeController = null;
+    closeProbe();
+
+    const onFrame: AnimationEventHandler = () => renderProbeCharts();
+    sim.on("frameChange", onFrame);
+    probeState = { sim, series, onFrame };
+
+    if (probeLayer) {
+      probeLayer.add(
+        new Graphic({
+          geometry: mapPoint,
+          symbol: new SimpleMarkerSymbol({
+            color: [209, 59, 59, 1],
+            size: 8,
+            outline: { color: [255, 255, 255, 1], width: 1.5 },
+          }),
+        })
+      );
+    }
+
+    if (probeBlock) {
+      probeBlock.hidden = false;
+      probeBlock.description = `${sim.getConfig().name} at ${x.toFixed(0)}, ${y.toFixed(0)}`;
+    }
+    renderProbeCharts();
+    updateStatus("Ready", "ready");
+  } catch (error) {
+    if (controller.signal.aborted) return;
+    console.error("Failed to probe location:", error);
+    updateStatus(`Failed to probe location: ${(error as Error).message}`, "error");
+  }
+}
+
+/**
+ * Render one time series chart per probed variable, with the current frame as cursor
+ */
+function renderProbeCharts(): void {
+  if (!probeState || !probeChartsEl) return;
+
+  const cursorX = probeState.sim.getCurrentTime();
+  probeChartsEl.innerHTML = "";
+
+  probeState.series.forEach((series) => {
+    const title = document.createElement("div");
+    title.className = "chart-title";
+    const peak = Math.max(0, ...series.values.map((v) => v ?? 0));
+    title.textContent = `${series.variable.name} (max ${peak.toFixed(2)} ${series.variable.unit})`;
+
+    const chart = document.createElement("div");
+    probeChartsEl!.append(title, chart);
+
+    renderLineChart(chart, {
+      series: [{
+        label: series.variable.name,
+        color: "#007ac2",
+        points: series.times.map((time, i) => [time, series.values[i]]),
+      }],
+      xLabel: "Time (s)",
+      yLabel: series.variable.unit,
+      cursorX,
+    });
+  });
+}
+
+/**
+ * Close the point probe panel and remove its marker
+ */
+function closeProbe(): void {
+  probeController?.abort();
+  probeController = null;
+  if (probeState) {
+    probeState.sim.off("frameChange", probeState.onFrame);
+    probeState = null;
+  }
+  probeLayer?.removeAll();
+  if (probeBlock) {
+    probeBlock.hidden = true;
+  }
+}
+
+/**
+ * Get the simulations currently shown in the scene
+ */
+function getDisplayedSimulations(): AvalancheSimulation[] {
+  if (manager.isPlayAllMode()) {
+    return manager.getAllSimulations();
+  }
+  const sim = getSimulation();
+  return sim ? [sim] : [];
+}
+
+/**
+ * Sample terrain along a sketched path and show the profile charts
+ */
+async function showProfile(path: Polyline): Promise<void> {
+  const extent = path.extent;
+  if (!extent || path.paths.length === 0) return;
+
+  updateStatus("Sampling profile...");
+  closeProfile(false);
+
+  try {
+    const wkid = path.spatialReference.wkid ?? WEB_MERCATOR_WKID;
+    const groundScale = getGroundScale({
+      xmin: extent.xmin,
+      ymin: extent.ymin,
+      xmax: extent.xmax,
+      ymax: extent.ymax,
+      spatialReference: { wkid },
+    });
+    const samples = samplePath(path.paths[0], PROFILE_STYLE.sampleCount, groundScale);
+    const sims = getDisplayedSimulations();
+    const dems = sims
+      .map((sim) => sim.getDem())
+      .filter((dem): dem is LocalDem => dem !== null);
+    const terrain = await getElevationService().queryPathElevations(
+      samples.map((sample) => [sample.x, sample.y]),
+      wkid,
+      dems
+    );
+
+    const onFrame: AnimationEventHandler = () => renderProfileCharts();
+    sims.forEach((sim) => sim.on("frameChange", onFrame));
+    profileState = { samples, terrain, sims, onFrame };
+
+    if (profileBlock) {
+      const length = samples[samples.length - 1]?.distance ?? 0;
+      profileBlock.hidden = false;
+      profileBlock.description = `Path length ${length.toFixed(0)} m`;
+    }
+    renderProfileCharts();
+    updateStatus("Ready", "ready");
+  } catch (error) {
+    console.error("Failed to build profile:", error);
+    updateStatus(`Failed to build profile: ${(error as Error).message}`, "error");
+  }
+}
+
+/**
+ * Render terrain / flow surface and flow height along the profile for the current frame
+ */
+function renderProfileCharts(): void {
+  if (!profileState) return;
+
+  const { samples, terrain, sims } = profileState;
+  const points = samples.map((sample): [number, number] => [sample.x, sample.y]);
+
+  // Highest flow of all displayed simulations at each sample
+  const flowHeights = new Array<number>(samples.length).fill(0);
+  sims.forEach((sim) => {
+    sim.sampleFlowHeights(points).forEach((h, i) => {
+      flowHeights[i] = Math.max(flowHeights[i], h);
+    });
+  });
+
+  if (profileElevationChartEl) {
+    renderLineChart(profileElevationChartEl, {
+      series: [
+        {
+          label: "Terrain",
+          color: "#6b4f2a",
+          points: samples.map((sample, i) => [sample.distance, terrain[i]]),
+        },
+        {
+          label: "Flow surface",
+          color: "#007ac2",
+          points: samples.map((sample, i) => [
+            sample.distance,
+            flowHeights[i] > 0 ? terrain[i] + flowHeights[i] : null,
+          ]),
+        },
+      ],
+      xLabel: "Distance (m)",
+      yLabel: "m a.s.l.",
+    });
+  }
+
+  if (profileFlowChartEl) {
+    renderLineChart(profileFlowChartEl, {
+      series: [{
+        label: "Flow height",
+        color: "#007ac2",
+        points: samples.map((sample, i) => [sample.distance, flowHeights[i]]),
+      }],
+      xLabel: "Distance (m)",
+      yLabel: "m",
+      height: 100,
+    });
+  }
+}
+
+/**
+ * Close the profile panel, optionally removing the sketched path
+ */
+function closeProfile(clearPath: boolean = true): void {
+  if (profileState) {
+    profileState.sims.forEach((sim) => sim.off("frameChange", profileState!.onFrame));
+    profileState = null;
+  }
+  if (clearPath) {
+    profileTool?.clear();
+  }
+  if (profileBlock) {
+    profileBlock.hidden = true;
+  }
+}
+
+/**
+ * Show runout distance, travel angle and front velocity of the active simulation
+ */
+function updateRunoutPanel(): void {
+  if (!runoutBlock) return;
+
+  const sim = manager.isPlayAllMode() ? null : getSimulation();
+  const result = sim?.getRunoutAnalysis();
+  if (!result) {
+    runoutBlock.hidden = true;
+    return;
+  }
+
+  if (runoutDistanceEl) {
+    runoutDistanceEl.textContent = `${result.runoutDistance.toFixed(0)} m`;
+  }
+  if (travelAngleEl) {
+    travelAngleEl.textContent = `${result.travelAngle.toFixed(1)}°`;
+  }
+  if (dropHeightEl) {
+    dropHeightEl.textContent = `${(result.releaseTop.z - result.runoutPoint.z).toFixed(0)} m`;
+  }
+  if (maxFrontVelocityEl) {
+    maxFrontVelocityEl.textContent = `${result.maxFrontVelocity.toFixed(1)} m/s`;
+  }
+
+  runoutBlock.hidden = false;
+  renderFrontVelocityChart();
+}
+
+/**
+ * Render the front velocity chart with the current frame as cursor
+ */
+function renderFrontVelocityChart(): void {
+  const sim = manager.isPlayAllMode() ? null : getSimulation();
+  const result = sim?.getRunoutAnalysis();
+  if (!sim || !result || !frontVelocityChartEl || runoutBlock?.hidden) return;
+
+  renderLineChart(frontVelocityChartEl, {
+    series: [{
+      label: "Front velocity",
+      color: "#007ac2",
+      points: result.front.map((position) => [position.time, position.velocity]),
+    }],
+    xLabel: "Time (s)",
+    yLabel: "m/s",
+    cursorX: sim.getCurrentTime(),
+    height: 100,
+  });
+}
+
+/**
+ * Build the frame statistics panel for the displayed simulations
+ */
+function updateFrameStatsPanel(): void {
+  if (!frameStatsBlock || !frameStatsEl) return;
+
+  frameStatsEl.innerHTML = "";
+  frameStatsEntries = [];
+
+  const sims = getDisplayedSimulations();
+  frameStatsBlock.hidden = sims.length === 0;
+  if (sims.length === 0) return;
+
+  sims.forEach((sim) => {
+    const entry = document.createElement("div");
+    entry.className = "stats-entry";
+
+    const nameEl = document.createElement("div");
+    nameEl.className = "stats-name";
+    nameEl.textContent = sim.getConfig().name;
+
+    const valuesEl = document.createElement("div");
+    valuesEl.className = "stats-values";
+
+    const sparklineEl = document.createElement("div");
+
+    entry.append(nameEl, valuesEl, sparklineEl);
+    frameStatsEl!.appendChild(entry);
+
+    const stats = sim.getFrameStatistics();
+    const setCursor = renderSparkline(
+      sparklineEl,
+      stats.map((frame) => [frame.time, frame.affectedArea]),
+      { onScrub: seekTo }
+    );
+    frameStatsEntries.push({ sim, stats, valuesEl, setCursor });
+  });
+
+  renderFrameStats();
+}
+
+/**
+ * Show the statistics of the current frame and move the sparkline cursors
+ */
+function renderFrameStats(): void {
+  frameStatsEntries.forEach(({ sim, stats, valuesEl, setCursor }) => {
+    const time = sim.getCurrentTime();
+    const frame = stats.find((s) => s.time === time);
+
+    valuesEl.textContent = frame
+      ? `${time.toFixed(2)} s · ${frame.affectedArea.toFixed(0)} m² · ` +
+        `max ${frame.maxHeight.toFixed(2)} m · mean ${frame.meanHeight.toFixed(2)} m`
+      : `${time.toFixed(2)} s · no data`;
+    setCursor(time);
+  });
+}
+
+/**
+ * Format a volume in m³
+ */
+function formatVolume(volume: number | null | undefined): string {
+  return volume !== null && volume !== undefined ? `${volume.toFixed(0)} m³` : "-";
+}
+
+/**
+ * Show the volume balance of the active simulation and list flagged frames
+ */
+function updateVolumePanel(): void {
+  if (!volumeBlock) return;
+
+  const sim = manager.isPlayAllMode() ? null : getSimulation();
+  if (!sim) {
+    volumeBlock.hidden = true;
+    return;
+  }
+
+  const balance = sim.getVolumeBalance();
+  const volumes = balance.samples
+    .map((sample) => sample.volume)
+    .filter((volume): volume is number => volume !== null);
+  const finalSample = [...balance.samples].reverse().find((sample) => sample.volume !== null);
+
+  if (releaseVolumeEl) {
+    releaseVolumeEl.textContent = formatVolume(balance.releaseVolume);
+  }
+  if (peakVolumeEl) {
+    peakVolumeEl.textContent = formatVolume(volumes.length > 0 ? Math.max(...volumes) : null);
+  }
+  if (finalVolumeEl) {
+    finalVolumeEl.textContent = formatVolume(finalSample?.volume);
+  }
+
+  if (volumeFlagsEl) {
+    volumeFlagsEl.innerHTML = "";
+    balance.samples
+      .filter((sample) => sample.flag)
+      .forEach((sample) => {
+        const item = document.createElement("li");
+        const change = sample.change !== null
+          ? ` (${sample.change > 0 ? "+" : ""}${(sample.change * 100).toFixed(0)}%)`
+          : "";
+        const reason = {
+          missing: "frame missing",
+          gain: "unexpected volume gain",
+          loss: "unexpected volume loss",
+        }[sample.flag!];
+        item.textContent = `${sample.time.toFixed(2)} s: ${reason}${change}`;
+        volumeFlagsEl!.appendChild(item);
+      });
+  }
+
+  volumeBlock.hidden = false;
+  renderVolumeChart();
+}
+
+/**
+ * List frames of the active simulation that are missing or unexpected
+ */
+function updateFrameWarningsPanel(): void {
+  if (!frameWarningsBlock || !frameWarningsEl) return;
+
+  const warnings = manager.isPlayAllMode() ? [] : getSimulation()?.getFrameWarnings() ?? [];
+  frameWarningsEl.innerHTML = "";
+  warnings.forEach((warning) => {
+    const item = document.createElement("li");
+    const time = warning.time !== null ? `${warning.time.toFixed(2)} s: ` : "";
+    item.textContent = `${time}${warning.file} – ${warning.message}`;
+    frameWarningsEl!.appendChild(item);
   });
 
-  // Returns area in square meters (negative for geodesic, take absolute)
-  return Math.abs(geodesicArea(polygon, "square-meters"));
+  frameWarningsBlock.hidden = warnings.length === 0;
+}
+
+/**
+ * Show the size of the persistent frame and elevation cache
+ */
+async function updateCacheUsage(): Promise<void> {
+  if (!cacheUsageEl) return;
+
+  try {
+    const { entries, bytes } = await getDataCache().getUsage();
+    cacheUsageEl.textContent = `${(bytes / (1024 * 1024)).toFixed(1)} MB (${entries} items)`;
+  } catch (error) {
+    console.warn("Could not read the cache size:", error);
+    cacheUsageEl.textContent = "-";
+  }
+}
+
+/**
+ * Render the volume curve against the release volume, with the current frame as cursor
+ */
+function renderVolumeChart(): void {
+  const sim = manager.isPlayAllMode() ? null : getSimulation();
+  if (!sim || !volumeChartEl || volumeBlock?.hidden) return;
+
+  const balance = sim.getVolumeBalance();
+  const series: ChartSeries[] = [{
+    label: "Volume in motion",
+    color: "#007ac2",
+    points: balance.samples.map((sample) => [sample.time, sample.volume]),
+  }];
+
+  if (balance.releaseVolume !== null) {
+    series.push({
+      label: "Release volume",
+      color: "#d13b3b",
+      dashed: true,
+      points: balance.samples.map((sample) => [sample.time, balance.releaseVolume]),
+    });
+  }
+
+  renderLineChart(volumeChartEl, {
+    series,
+    xLabel: "Time (s)",
+    yLabel: "m³",
+    cursorX: sim.getCurrentTime(),
+    height: 100,
+  });
 }
 
 /**
@@ -348,12 +1412,22 @@ function updateInfoPanel(config: AvalancheConfig): void {
 
   // DEM info
   if (demSourceEl) {
-    demSourceEl.textContent = config.demSource || "-";
+    demSourceEl.textContent = config.demSource || getElevationService().getProvider().name;
   }
   if (demResolutionEl) {
-    demResolutionEl.textContent = config.demGridResolution
-      ? `${config.demGridResolution} m`
-      : "-";
+    // The resolution of a loaded DEM is read from the file
+    const dem = getSimulation()?.getDem();
+    const resolution = dem?.getResolution() ?? config.demGridResolution;
+    demResolutionEl.textContent = resolution ? `${resolution} m` : "-";
+  }
+  if (rasterCrsEl) {
+    const wkid = getSimulation()?.getGridExtent()?.spatialReference.wkid;
+    rasterCrsEl.textContent = wkid ? `EPSG:${wkid}` : "-";
+  }
+
+  if (displayGridEl) {
+    const gridData = getSimulation()?.getGridData();
+    displayGridEl.textContent = gridData ? `${gridData.width} × ${gridData.height} cells` : "-";
   }
 
   // Draw the release zone on the map
@@ -382,6 +1456,15 @@ function populateAvalancheList(configs: AvalancheConfig[]): void {
     avalancheList!.appendChild(item);
   });
 
+  // Add ensembles
+  manager.getEnsembleConfigs().forEach((ensemble) => {
+    const item = document.createElement("calcite-list-item");
+    item.label = ensemble.name;
+    item.description = `Ensemble of ${ensemble.members.length} runs`;
+    item.value = `ensemble:${ensemble.id}`;
+    avalancheList!.appendChild(item);
+  });
+
   // Handle selection
   avalancheList.addEventListener("calciteListChange", async (event) => {
     const selectedItems = (event.target as HTMLCalciteListElement).selectedItems;
@@ -392,12 +1475,111 @@ function populateAvalancheList(configs: AvalancheConfig[]): void {
 
     if (selectedId === "all") {
       await handlePlayAll();
+    } else if (selectedId.startsWith("ensemble:")) {
+      await handleEnsemble(selectedId.slice("ensemble:".length));
     } else {
       await switchToAvalanche(selectedId);
     }
   });
 }
 
+/**
+ * Register an avalanche created at runtime (local files or a package) and switch to it
+ */
+async function openAvalanche(
+  source: string,
+  createConfig: () => AvalancheConfig | Promise<AvalancheConfig>
+): Promise<void> {
+  updateStatus(`Opening ${source}...`);
+
+  let config: AvalancheConfig;
+  try {
+    config = await createConfig();
+    manager.addConfig(config);
+  } catch (error) {
+    console.error(`Failed to open ${source}:`, error);
+    updateStatus(`Could not open ${source}: ${(error as Error).message}`, "error");
+    return;
+  }
+
+  // List runtime avalanches after the configured ones, before the ensembles
+  if (avalancheList) {
+    const item = document.createElement("calcite-list-item");
+    item.label = config.name;
+    item.description = config.description ?? "";
+    item.value = config.id;
+    const firstEnsemble = avalancheList.querySelector('calcite-list-item[value^="ensemble:"]');
+    avalancheList.insertBefore(item, firstEnsemble);
+    item.selected = true;
+  }
+
+  await switchToAvalanche(config.id);
+}
+
+/**
+ * Open local time step files or a zipped simulation package
+ */
+async function openLocalFiles(files: File[], name?: string): Promise<void> {
+  const zip = files.find((file) => /\.zip$/i.test(file.name));
+  if (zip) {
+    await openAvalanche(zip.name, () => loadSimulationPackage(zip));
+  } else {
+    await openAvalanche("local files", () => createLocalConfig(files, name));
+  }
+}
+
+/**
+ * Accept local result folders or files by drag-and-drop and file picker
+ */
+function setupLocalFiles(): void {
+  // Count enter/leave pairs, they fire for every child element
+  let dragDepth = 0;
+  const hasFiles = (event: DragEvent) => event.dataTransfer?.types.includes("Files") ?? false;
+
+  document.addEventListener("dragenter", (event) => {
+    if (!hasFiles(event)) return;
+    dragDepth++;
+    dropOverlay?.classList.remove("hidden");
+  });
+  document.addEventListener("dragleave", (event) => {
+    if (!hasFiles(event)) return;
+    dragDepth = Math.max(0, dragDepth - 1);
+    if (dragDepth === 0) {
+      dropOverlay?.classList.add("hidden");
+    }
+  });
+  document.addEventListener("dragover", (event) => {
+    if (hasFiles(event)) {
+      event.preventDefault();
+    }
+  });
+  document.addEventListener("drop", async (event) => {
+    if (!event.dataTransfer || !hasFiles(event)) return;
+    event.preventDefault();
+    dragDepth = 0;
+    dropOverlay?.classList.add("hidden");
+
+    try {
+      const { files, folderName } = await readDroppedFiles(event.dataTransfer);
+      await openLocalFiles(files, folderName ?? undefined);
+    } catch (error) {
+      console.error("Failed to read dropped files:", error);
+      updateStatus(`Could not read the dropped files: ${(error as Error).message}`, "error");
+    }
+  });
+
+  openLocalBtn?.addEventListener("click", () => localFileInput?.click());
+  localFileInput?.addEventListener("change", async () => {
+    const files = Array.from(localFileInput?.files ?? []);
+    if (localFileInput) {
+      localFileInput.value = "";
+    }
+    if (files.length > 0) {
+      await openLocalFiles(files);
+    }
+  });
+}
+
 /**
  * Handle Play All selection
  */
@@ -405,15 +1587,18 @@ async function handlePlayAll(): Promise<void> {
   updateStatus("Loading all avalanches...");
   showLoadingProgress();
 
-  // Clear release zone when playing all
+  // Clear release zone and probe when playing all
   if (releaseZoneLayer) {
     releaseZoneLayer.removeAll();
   }
+  closeProbe();
+  closeProfile();
 
   try {
     await manager.loadAllSimulations((loaded, total) => {
       updateProgress(loaded, total);
     });
+    await updateGround(getFirstDem(manager.getAllSimulations()));
 
     hideLoading();
     updateStatus("Playing all avalanches", "ready");
@@ -437,6 +1622,19 @@ async function handlePlayAll(): Promise<void> {
     if (demResolutionEl) {
       demResolutionEl.textContent = "-";
     }
+    if (rasterCrsEl) {
+      rasterCrsEl.textContent = "-";
+    }
+    if (displayGridEl) {
+      displayGridEl.textContent = "-";
+    }
+
+    // Offer every result variable provided by any simulation
+    const variables = new Map<string, ResultVariableConfig>();
+    manager.getAllSimulations().forEach((sim) => {
+      sim.getVariables().forEach((variable) => variables.set(variable.id, variable));
+    });
+    populateVariableSelect(Array.from(variables.values()), FLOW_HEIGHT_VARIABLE_ID);
 
     // Set slider to max range across all simulations
     if (timeSlider) {
@@ -453,11 +1651,85 @@ async function handlePlayAll(): Promise<void> {
 
     await manager.playAll();
 
+    // Hazard zones and runout analysis are only available for a single avalanche
+    updateColorModeSelect();
+    updateHazardZoneSummary();
+    updateRunoutPanel();
+    updateVolumePanel();
+    updateFrameWarningsPanel();
+    updateFrameStatsPanel();
+    populateCompareSelect();
+    updateEnsemblePanel();
+    applyProductSelection();
+
     // Update play button to show playing state
     onPlayStateChange(true);
   } catch (error) {
+    // Superseded by a switch, which updates the UI itself
+    if (isAbortError(error)) return;
     console.error("Failed to play all:", error);
-    updateStatus("Failed to load all avalanches", "error");
+    updateStatus(`Failed to load all avalanches: ${(error as Error).message}`, "error");
+  }
+}
+
+/**
+ * Handle ensemble selection: show the probability of exceedance map
+ */
+async function handleEnsemble(id: string): Promise<void> {
+  const config = manager.getEnsembleConfigs().find((c) => c.id === id);
+  if (!config) return;
+
+  // Clear release zone and probe, the ensemble is a static map
+  if (releaseZoneLayer) {
+    releaseZoneLayer.removeAll();
+  }
+  closeProbe();
+  closeProfile();
+
+  updateStatus(`Loading ${config.name}...`);
+  showLoadingProgress();
+
+  try {
+    await manager.showEnsemble(id, updateProgress);
+    await updateGround(getFirstDem(manager.getEnsemble()?.getMembers() ?? []));
+    hideLoading();
+
+    // Thresholds are remembered per ensemble, starting from its configured one
+    ensembleThresholds.clear();
+    const ensemble = manager.getEnsemble();
+    const variable = ensemble?.getVariable();
+    if (ensemble && variable) {
+      ensembleThresholds.set(variable.id, ensemble.getThreshold());
+    }
+
+    if (avalancheNameEl) {
+      avalancheNameEl.textContent = config.name;
+    }
+    if (avalancheDescEl) {
+      avalancheDescEl.textContent = config.description || `Ensemble of ${config.members.length} runs`;
+    }
+    [releaseDepthEl, releaseAreaEl, demSourceEl, demResolutionEl, rasterCrsEl, displayGridEl].forEach((el) => {
+      if (el) el.textContent = "-";
+    });
+
+    // Single avalanche panels don't apply to an ensemble
+    updateColorModeSelect();
+    updateHazardZoneSummary();
+    updateFlowLegend();
+    updateRunoutPanel();
+    updateVolumePanel();
+    updateFrameWarningsPanel();
+    updateFrameStatsPanel();
+    populateCompareSelect();
+    updateEnsemblePanel();
+    onPlayStateChange(false);
+
+    updateStatus("Showing exceedance probability", "ready");
+  } catch (error) {
+    // Superseded by a switch, which updates the UI itself
+    if (isAbortError(error)) return;
+    console.error("Failed to load ensemble:", error);
+    updateStatus(`Failed to load ${config.name}: ${(error as Error).message}`, "error");
   }
 }
 
@@ -474,6 +1746,11 @@ function subscribeToAllSimulations(): void {
         onPlayStateChange(isPlaying);
       }
     });
+    sim.on("frameChange", () => {
+      if (manager.isPlayAllMode()) {
+        renderFrameStats();
+      }
+    });
   });
 }
 
@@ -489,6 +1766,9 @@ async function switchToAvalanche(id: string): Promise<void> {
   const config = manager.getConfigs().find((c) => c.id === id);
   if (!config) return;
 
+  closeProbe();
+  closeProfile();
+
   updateStatus(`Loading ${config.name}...`);
   showLoadingProgress();
 
@@ -499,17 +1779,58 @@ async function switchToAvalanche(id: string): Promise<void> {
     subscribeToSimulation();
 
     // Update UI
+    const sim = getSimulation();
+    await updateGround(sim?.getDem() ?? null);
     updateSliderForConfig(config);
     updateInfoPanel(config);
+    if (sim) {
+      populateVariableSelect(sim.getVariables(), sim.getActiveVariable().id);
+    }
+    updateColorModeSelect();
+    updateHazardZoneSummary();
+    updateRunoutPanel();
+    updateVolumePanel();
+    updateFrameWarningsPanel();
+    updateFrameStatsPanel();
+    populateCompareSelect();
+    updateEnsemblePanel();
+    applyProductSelection();
     hideLoading();
 
     // Reset play button state
     onPlayStateChange(false);
 
-    updateStatus("Ready - Press Play to animate", "ready");
+    updateReadyStatus(
+      sim?.isLoading()
+        ? "Ready - Press Play to animate (loading remaining frames...)"
+        : "Ready - Press Play to animate"
+    );
   } catch (error) {
+    // Superseded by another switch, which updates the UI itself
+    if (isAbortError(error)) return;
     console.error("Failed to switch avalanche:", error);
-    updateStatus(`Failed to load ${config.name}`, "error");
+    updateStatus(`Failed to load ${config.name}: ${(error as Error).message}`, "error");
+  }
+}
+
+/**
+ * Get the first local DEM of the displayed simulations, the scene has a single ground
+ */
+function getFirstDem(sims: AvalancheSimulation[]): LocalDem | null {
+  return sims.map((sim) => sim.getDem()).find((dem) => dem !== null) ?? null;
+}
+
+/**
+ * Use a local DEM as the scene ground, or the elevation service without one
+ */
+async function updateGround(dem: LocalDem | null): Promise<void> {
+  if (!ground) return;
+
+  const elevationService = getElevationService();
+  const layer = dem ? await elevationService.getDemLayer(dem) : await elevationService.getLayer();
+  if (!ground.layers.includes(layer)) {
+    ground.layers.removeAll();
+    ground.layers.add(layer);
   }
 }
 
@@ -551,17 +1872,60 @@ function setupOpacitySliders(): void {
   }
 }
 
+/**
+ * Setup the aspect layer switch, its legend is shown with the layer
+ */
+function setupAspectLayer(): void {
+  if (!aspectSwitch) return;
+
+  if (aspectItem) {
+    aspectItem.description = `Slopes steeper than ${DEFAULT_TERRAIN_ANALYSIS_CONFIG.minSlope}°`;
+  }
+  if (!aspectLayer) {
+    aspectSwitch.disabled = true;
+    return;
+  }
+
+  aspectSwitch.checked = aspectLayer.visible;
+  aspectSwitch.addEventListener("calciteSwitchChange", () => {
+    if (aspectLayer) {
+      aspectLayer.visible = aspectSwitch!.checked;
+    }
+    if (aspectLegendEl) {
+      aspectLegendEl.hidden = !aspectSwitch!.checked;
+    }
+  });
+}
+
 /**
  * Handle scene view ready event
  */
 async function onSceneViewReady(view: SceneView): Promise<void> {
-  // Load elevation service
+  // Load avalanche configurations (they select the terrain provider)
+  updateStatus("Loading avalanche configurations...");
+  const configs = await manager.loadConfigs();
+
+  // Errors of the displayed simulations, e.g. failed frames or ground elevations;
+  // a simulation that is still being switched to reports through the switch
+  manager.on("error", (event) => {
+    if (!manager.isPlayAllMode() && event.avalancheId !== manager.getActiveConfig()?.id) return;
+    const name = manager.getConfigs().find((c) => c.id === event.avalancheId)?.name ?? event.avalancheId;
+    updateStatus(`${name}: ${event.error?.message ?? "unknown error"}`, "error");
+  });
+
+  // Load the terrain provider, local DEMs still work without it
   const elevationService = getElevationService();
-  await elevationService.load();
+  try {
+    await elevationService.load();
+  } catch (error) {
+    console.warn("Terrain provider unavailable:", error);
+  }
 
-  // Create layers
-  snowCoverLayer = createSnowCoverLayer();
-  slopesLayer = createSlopesLayer();
+  // Create layers (providers without an elevation raster have no snow cover and terrain analysis)
+  const provider = elevationService.getProvider();
+  snowCoverLayer = createSnowCoverLayer(provider);
+  slopesLayer = elevationService.getSlopeLayer();
+  aspectLayer = elevationService.getTerrainLayer("aspect");
 
   // Create release zone layer
   releaseZoneLayer = new GraphicsLayer({
@@ -571,32 +1935,64 @@ async function onSceneViewReady(view: SceneView): Promise<void> {
     }
   });
 
-  // Add elevation layer to ground and layers to map
+  // Create point probe marker layer
+  probeLayer = new GraphicsLayer({
+    title: "Point Probe",
+    listMode: "hide",
+    elevationInfo: {
+      mode: "relative-to-ground"
+    }
+  });
+
+  // Use the configured basemap and the terrain provider's ground
   if (view.map) {
-    view.map.ground.layers.add(elevationService.getLayer());
-    view.map.addMany([snowCoverLayer, slopesLayer, releaseZoneLayer]);
+    const basemapConfig = manager.getBasemapConfig();
+    if (basemapConfig) {
+      view.map.basemap = createBasemap(basemapConfig);
+    }
+    ground = view.map.ground;
+    await updateGround(null);
+    view.map.addMany(
+      [snowCoverLayer, slopesLayer, aspectLayer, releaseZoneLayer, probeLayer].filter(
+        (layer): layer is __esri.Layer => layer !== null
+      )
+    );
   }
 
+  // Profile sketching tool
+  profileTool = new ProfileTool(view);
+
+  // Probe the flow time series at clicked locations
+  view.on("click", async (event) => {
+    if (event.mapPoint && !profileTool?.isDrawing()) {
+      await probeAt(event.mapPoint);
+    }
+  });
+
   // Setup opacity sliders
   setupOpacitySliders();
+  setupAspectLayer();
 
   // Set view in simulation manager
   manager.setView(view);
 
-  // Load avalanche configurations
-  updateStatus("Loading avalanche configurations...");
-  const configs = await manager.loadConfigs();
-
   // Populate avalanche list
   populateAvalancheList(configs);
 
+  // Accept local result files from now on
+  setupLocalFiles();
+
   // Hide initial loading overlay
   if (loadingOverlay) {
     loadingOverlay.classList.add("hidden");
   }
 
-  // Auto-select first avalanche (skip "All Avalanches" which is first)
-  if (configs.length > 0) {
+  // Open a simulation package given as ?package=<url>, otherwise
+  // auto-select first avalanche (skip "All Avalanches" which is first)
+  const packageUrl = new URLSearchParams(window.location.search).get("package");
+  if (packageUrl) {
+    await openAvalanche(packageUrl, () => loadSimulationPackage(packageUrl));
+  } else if (configs.length > 0) {
     // Set the second item (first actual avalanche) as selected in the list
     const items = avalancheList?.querySelectorAll("calcite-list-item");
     if (items && items.length > 1) {
@@ -623,6 +2019,57 @@ function init(): void {
   smoothingSelect = document.getElementById("smoothing-select") as HTMLCalciteSelectElement;
   flattenSelect = document.getElementById("flatten-select") as HTMLCalciteSelectElement;
   exaggerationSelect = document.getElementById("exaggeration-select") as HTMLCalciteSelectElement;
+  cacheUsageEl = document.getElementById("cache-usage");
+  clearCacheBtn = document.getElementById("clear-cache-btn") as HTMLCalciteButtonElement;
+  variableSelect = document.getElementById("variable-select") as HTMLCalciteSelectElement;
+  colorModeSelect = document.getElementById("color-mode-select") as HTMLCalciteSelectElement;
+  hazardZoneBlock = document.getElementById("hazard-zone-block") as HTMLCalciteBlockElement;
+  hazardZoneSummaryEl = document.getElementById("hazard-zone-summary");
+  flowLegendBlock = document.getElementById("flow-legend-block") as HTMLCalciteBlockElement;
+  flowLegendEl = document.getElementById("flow-legend");
+  envelopeSwitch = document.getElementById("envelope-switch") as HTMLCalciteSwitchElement;
+  envelopeLegendBlock = document.getElementById("envelope-legend-block") as HTMLCalciteBlockElement;
+  envelopeLegendEl = document.getElementById("envelope-legend");
+  arrivalSwitch = document.getElementById("arrival-switch") as HTMLCalciteSwitchElement;
+  arrivalThresholdSelect = document.getElementById("arrival-threshold-select") as HTMLCalciteSelectElement;
+  arrivalLegendBlock = document.getElementById("arrival-legend-block") as HTMLCalciteBlockElement;
+  arrivalLegendEl = document.getElementById("arrival-legend");
+  compareBlock = document.getElementById("compare-block") as HTMLCalciteBlockElement;
+  compareSelect = document.getElementById("compare-select") as HTMLCalciteSelectElement;
+  compareModeSelect = document.getElementById("compare-mode-select") as HTMLCalciteSelectElement;
+  compareLegendEl = document.getElementById("compare-legend");
+  compareWarningsEl = document.getElementById("compare-warnings");
+  ensembleBlock = document.getElementById("ensemble-block") as HTMLCalciteBlockElement;
+  ensembleVariableSelect = document.getElementById("ensemble-variable-select") as HTMLCalciteSelectElement;
+  ensembleThresholdInput = document.getElementById("ensemble-threshold-input") as HTMLCalciteInputNumberElement;
+  ensembleLegendEl = document.getElementById("ensemble-legend");
+  ensembleMembersEl = document.getElementById("ensemble-members");
+  ensembleAreaEl = document.getElementById("ensemble-area");
+  ensembleWarningsEl = document.getElementById("ensemble-warnings");
+  probeBlock = document.getElementById("probe-block") as HTMLCalciteBlockElement;
+  probeChartsEl = document.getElementById("probe-charts");
+  probeCloseBtn = document.getElementById("probe-close") as HTMLCalciteActionElement;
+  profileBtn = document.getElementById("profile-btn") as HTMLCalciteButtonElement;
+  profileBlock = document.getElementById("profile-block") as HTMLCalciteBlockElement;
+  profileCloseBtn = document.getElementById("profile-close") as HTMLCalciteActionElement;
+  profileElevationChartEl = document.getElementById("profile-elevation-chart");
+  profileFlowChartEl = document.getElementById("profile-flow-chart");
+  runoutBlock = document.getElementById("runout-block") as HTMLCalciteBlockElement;
+  runoutDistanceEl = document.getElementById("runout-distance");
+  travelAngleEl = document.getElementById("travel-angle");
+  dropHeightEl = document.getElementById("drop-height");
+  maxFrontVelocityEl = document.getElementById("max-front-velocity");
+  frontVelocityChartEl = document.getElementById("front-velocity-chart");
+  frameStatsBlock = document.getElementById("frame-stats-block") as HTMLCalciteBlockElement;
+  frameStatsEl = document.getElementById("frame-stats");
+  volumeBlock = document.getElementById("volume-block") as HTMLCalciteBlockElement;
+  releaseVolumeEl = document.getElementById("release-volume");
+  peakVolumeEl = document.getElementById("peak-volume");
+  finalVolumeEl = document.getElementById("final-volume");
+  volumeChartEl = document.getElementById("volume-chart");
+  volumeFlagsEl = document.getElementById("volume-flags");
+  frameWarningsBlock = document.getElementById("frame-warnings-block") as HTMLCalciteBlockElement;
+  frameWarningsEl = document.getElementById("frame-warnings");
   currentTimeSpan = document.getElementById("current-time");
   statusEl = document.getElementById("status");
   progressBar = document.getElementById("progress-bar") as HTMLCalciteProgressElement;
@@ -630,20 +2077,48 @@ function init(): void {
   loadingProgress = document.getElementById("loading-progress");
   loadingOverlay = document.getElementById("loading-overlay");
   avalancheList = document.getElementById("avalanche-list") as HTMLCalciteListElement;
+  openLocalBtn = document.getElementById("open-local-btn") as HTMLCalciteButtonElement;
+  localFileInput = document.getElementById("local-file-input") as HTMLInputElement;
+  dropOverlay = document.getElementById("drop-overlay");
   avalancheNameEl = document.getElementById("avalanche-name");
   avalancheDescEl = document.getElementById("avalanche-description");
   releaseDepthEl = document.getElementById("release-depth");
   releaseAreaEl = document.getElementById("release-area");
   demSourceEl = document.getElementById("dem-source");
   demResolutionEl = document.getElementById("dem-resolution");
+  rasterCrsEl = document.getElementById("raster-crs");
+  displayGridEl = document.getElementById("display-grid");
 
   // Opacity sliders
   snowCoverOpacitySlider = document.getElementById("snow-cover-opacity") as HTMLCalciteSliderElement;
   slopesOpacitySlider = document.getElementById("slopes-opacity") as HTMLCalciteSliderElement;
   releaseZoneOpacitySlider = document.getElementById("release-zone-opacity") as HTMLCalciteSliderElement;
 
+  // Aspect layer
+  aspectItem = document.getElementById("aspect-item") as HTMLCalciteListItemElement;
+  aspectSwitch = document.getElementById("aspect-switch") as HTMLCalciteSwitchElement;
+  aspectLegendEl = document.getElementById("aspect-legend");
+
+  // Static legends
+  if (envelopeLegendEl) {
+    renderColorRampLegend(envelopeLegendEl, ENVELOPE_COLOR_STOPS, "Flow height (m)");
+  }
+  if (arrivalLegendEl) {
+    renderColorRampLegend(arrivalLegendEl, ARRIVAL_COLOR_STOPS, "Arrival time (s)");
+  }
+  if (compareLegendEl) {
+    renderColorRampLegend(compareLegendEl, DIFFERENCE_COLOR_STOPS, "Flow height difference (m)");
+  }
+  if (ensembleLegendEl) {
+    renderColorRampLegend(ensembleLegendEl, PROBABILITY_COLOR_STOPS, "Probability of exceedance");
+  }
+  if (aspectLegendEl) {
+    renderClassLegend(aspectLegendEl, getTerrainClasses("aspect"), "°");
+  }
+
   // Setup controls
   setupControls();
+  updateCacheUsage();
 
   // Get the arcgis-scene component and listen for ready event
   const sceneElement = document.querySelector("arcgis-scene") as ArcgisSceneElement | null;
@@ -665,5 +2140,18 @@ function init(): void {
   }
 }
 
+/**
+ * Register the service worker that keeps the app, configurations and map
+ * tiles available offline (production builds only, it would cache the dev server)
+ */
+function registerServiceWorker(): void {
+  if (!import.meta.env.PROD || !("serviceWorker" in navigator)) return;
+
+  navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js`).catch((error) => {
+    console.warn("Offline support unavailable:", error);
+  });
+}
+
 // Start the application
+registerServiceWorker();
 init();
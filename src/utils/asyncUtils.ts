@@ -0,0 +1,92 @@
+/**
+ * Run an async task for each item with at most `concurrency` tasks in flight
+ * Results keep the order of the items. Once the signal is aborted no further
+ * tasks are started and the returned promise rejects with the abort reason.
+ */
+export async function mapConcurrent<T, R>(
+  items: T[],
+  concurrency: number,
+  task: (item: T, index: number) => Promise<R>,
+  signal?: AbortSignal
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      signal?.throwIfAborted();
+      const index = next++;
+      results[index] = await task(items[index], index);
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(Math.floor(concurrency), items.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  signal?.throwIfAborted();
+
+  return results;
+}
+
+/**
+ * Wait for a promise, rejecting with the abort reason as soon as the signal
+ * is aborted (the awaited operation itself is not cancelled)
+ */
+export function raceAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    if (signal.aborted) {
+      onAbort();
+    } else {
+      signal.addEventListener('abort', onAbort, { once: true });
+    }
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+/**
+ * Check if an error was raised by cancelling an operation (fetch, AbortSignal)
+ */
+export function isAbortError(error: unknown): boolean {
+  return (error as Error | null)?.name === 'AbortError';
+}
+
+/**
+ * Run an async task, retrying failures with exponentially growing delays
+ * (baseDelay, 2 × baseDelay, ...). The last error is thrown once all attempts
+ * failed; aborting the signal stops immediately with the abort reason.
+ */
+export async function retryWithBackoff<T>(
+  task: () => Promise<T>,
+  attempts: number,
+  baseDelay: number,
+  signal?: AbortSignal
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    signal?.throwIfAborted();
+    try {
+      return await task();
+    } catch (error) {
+      if (signal?.aborted || isAbortError(error) || attempt >= attempts) throw error;
+      await delay(baseDelay * 2 ** (attempt - 1), signal);
+    }
+  }
+}
+
+/**
+ * Wait for the given time, rejecting with the abort reason when cancelled
+ */
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,232 @@
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+// Space reserved for axis labels (px)
+const MARGIN = { top: 8, right: 8, bottom: 20, left: 40 };
+
+/**
+ * Data series of a line chart, points are [x, y] (null y breaks the line)
+ */
+export interface ChartSeries {
+  label: string;
+  color: string;
+  points: [number, number | null][];
+  dashed?: boolean;
+}
+
+/**
+ * Line chart rendering options
+ */
+export interface LineChartOptions {
+  series: ChartSeries[];
+  xLabel: string;
+  yLabel: string;
+  cursorX?: number;
+  height?: number;
+}
+
+/**
+ * Render a simple SVG line chart into a container, replacing its content
+ */
+export function renderLineChart(container: HTMLElement, options: LineChartOptions): void {
+  container.innerHTML = '';
+
+  const width = container.clientWidth || 280;
+  const height = options.height ?? 140;
+  const plotWidth = width - MARGIN.left - MARGIN.right;
+  const plotHeight = height - MARGIN.top - MARGIN.bottom;
+
+  // Data bounds (y always includes 0)
+  let xMin = Infinity;
+  let xMax = -Infinity;
+  let yMin = 0;
+  let yMax = -Infinity;
+  options.series.forEach((series) => {
+    series.points.forEach(([x, y]) => {
+      xMin = Math.min(xMin, x);
+      xMax = Math.max(xMax, x);
+      if (y !== null) {
+        yMin = Math.min(yMin, y);
+        yMax = Math.max(yMax, y);
+      }
+    });
+  });
+  if (!isFinite(xMin)) {
+    xMin = 0;
+    xMax = 1;
+  }
+  if (xMax === xMin) xMax = xMin + 1;
+  if (!isFinite(yMax) || yMax <= yMin) yMax = yMin + 1;
+
+  const toX = (x: number) => MARGIN.left + ((x - xMin) / (xMax - xMin)) * plotWidth;
+  const toY = (y: number) => MARGIN.top + (1 - (y - yMin) / (yMax - yMin)) * plotHeight;
+
+  const svg = document.createElementNS(SVG_NS, 'svg');
+  svg.setAttribute('class', 'line-chart');
+  svg.setAttribute('width', `${width}`);
+  svg.setAttribute('height', `${height}`);
+
+  // Axes
+  svg.appendChild(createLine(MARGIN.left, MARGIN.top, MARGIN.left, MARGIN.top + plotHeight, 'chart-axis'));
+  svg.appendChild(
+    createLine(MARGIN.left, MARGIN.top + plotHeight, MARGIN.left + plotWidth, MARGIN.top + plotHeight, 'chart-axis')
+  );
+
+  // Axis labels: y range on the left, x range below
+  svg.appendChild(createText(MARGIN.left - 4, MARGIN.top + 8, formatTick(yMax), 'end'));
+  svg.appendChild(createText(MARGIN.left - 4, MARGIN.top + plotHeight, formatTick(yMin), 'end'));
+  svg.appendChild(createText(MARGIN.left, height - 4, formatTick(xMin), 'start'));
+  svg.appendChild(createText(MARGIN.left + plotWidth, height - 4, formatTick(xMax), 'end'));
+  svg.appendChild(createText(MARGIN.left + plotWidth / 2, height - 4, options.xLabel, 'middle'));
+  const yLabel = createText(10, MARGIN.top + plotHeight / 2, options.yLabel, 'middle');
+  yLabel.setAttribute('transform', `rotate(-90 10 ${MARGIN.top + plotHeight / 2})`);
+  svg.appendChild(yLabel);
+
+  // Series
+  options.series.forEach((series) => {
+    let d = '';
+    let penDown = false;
+    series.points.forEach(([x, y]) => {
+      if (y === null) {
+        penDown = false;
+        return;
+      }
+      d += `${penDown ? 'L' : 'M'}${toX(x).toFixed(1)},${toY(y).toFixed(1)}`;
+      penDown = true;
+    });
+
+    const path = document.createElementNS(SVG_NS, 'path');
+    path.setAttribute('d', d);
+    path.setAttribute('fill', 'none');
+    path.setAttribute('stroke', series.color);
+    path.setAttribute('stroke-width', '1.5');
+    if (series.dashed) {
+      path.setAttribute('stroke-dasharray', '4 3');
+    }
+    const title = document.createElementNS(SVG_NS, 'title');
+    title.textContent = series.label;
+    path.appendChild(title);
+    svg.appendChild(path);
+  });
+
+  // Cursor
+  if (options.cursorX !== undefined && options.cursorX >= xMin && options.cursorX <= xMax) {
+    const cx = toX(options.cursorX);
+    svg.appendChild(createLine(cx, MARGIN.top, cx, MARGIN.top + plotHeight, 'chart-cursor'));
+  }
+
+  container.appendChild(svg);
+}
+
+/**
+ * Create an SVG line element
+ */
+function createLine(x1: number, y1: number, x2: number, y2: number, className: string): SVGLineElement {
+  const line = document.createElementNS(SVG_NS, 'line');
+  line.setAttribute('x1', `${x1}`);
+  line.setAttribute('y1', `${y1}`);
+  line.setAttribute('x2', `${x2}`);
+  line.setAttribute('y2', `${y2}`);
+  line.setAttribute('class', className);
+  return line;
+}
+
+/**
+ * Create an SVG text element
+ */
+function createText(x: number, y: number, text: string, anchor: 'start' | 'middle' | 'end'): SVGTextElement {
+  const el = document.createElementNS(SVG_NS, 'text');
+  el.setAttribute('x', `${x}`);
+  el.setAttribute('y', `${y}`);
+  el.setAttribute('text-anchor', anchor);
+  el.setAttribute('class', 'chart-label');
+  el.textContent = text;
+  return el;
+}
+
+/**
+ * Format an axis tick value with sensible precision
+ */
+function formatTick(value: number): string {
+  if (Math.abs(value) >= 100) return value.toFixed(0);
+  if (Math.abs(value) >= 10) return value.toFixed(1);
+  return value.toFixed(2);
+}
+
+/**
+ * Sparkline rendering options
+ */
+export interface SparklineOptions {
+  color?: string;
+  height?: number;
+  onScrub?: (x: number) => void;
+}
+
+/**
+ * Render a compact SVG sparkline into a container, replacing its content
+ * If onScrub is given, clicking or dragging on the sparkline reports the x value.
+ * @returns Function moving the cursor to an x value
+ */
+export function renderSparkline(
+  container: HTMLElement,
+  points: [number, number][],
+  options: SparklineOptions = {}
+): (cursorX: number) => void {
+  container.innerHTML = '';
+
+  const width = container.clientWidth || 200;
+  const height = options.height ?? 28;
+  if (points.length === 0) return () => {};
+
+  const xMin = points[0][0];
+  const xMax = points[points.length - 1][0] > xMin ? points[points.length - 1][0] : xMin + 1;
+  const yMax = Math.max(...points.map(([, y]) => y)) || 1;
+
+  const toX = (x: number) => ((x - xMin) / (xMax - xMin)) * width;
+  const toY = (y: number) => height - 1 - (y / yMax) * (height - 2);
+
+  const svg = document.createElementNS(SVG_NS, 'svg');
+  svg.setAttribute('class', 'sparkline');
+  svg.setAttribute('width', `${width}`);
+  svg.setAttribute('height', `${height}`);
+
+  const path = document.createElementNS(SVG_NS, 'path');
+  path.setAttribute(
+    'd',
+    points.map(([x, y], i) => `${i === 0 ? 'M' : 'L'}${toX(x).toFixed(1)},${toY(y).toFixed(1)}`).join('')
+  );
+  path.setAttribute('fill', 'none');
+  path.setAttribute('stroke', options.color ?? '#007ac2');
+  path.setAttribute('stroke-width', '1.5');
+  svg.appendChild(path);
+
+  const cursor = createLine(0, 0, 0, height, 'chart-cursor');
+  svg.appendChild(cursor);
+
+  if (options.onScrub) {
+    const onScrub = options.onScrub;
+    const scrub = (event: PointerEvent) => {
+      const rect = svg.getBoundingClientRect();
+      const ratio = Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width));
+      onScrub(xMin + ratio * (xMax - xMin));
+    };
+
+    svg.classList.add('scrubbable');
+    svg.addEventListener('pointerdown', (event) => {
+      svg.setPointerCapture(event.pointerId);
+      scrub(event);
+    });
+    svg.addEventListener('pointermove', (event) => {
+      if (svg.hasPointerCapture(event.pointerId)) {
+        scrub(event);
+      }
+    });
+  }
+
+  container.appendChild(svg);
+
+  return (cursorX: number) => {
+    const cx = toX(Math.min(xMax, Math.max(xMin, cursorX))).toFixed(1);
+    cursor.setAttribute('x1', cx);
+    cursor.setAttribute('x2', cx);
+  };
+}
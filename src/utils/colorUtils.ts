@@ -1,4 +1,4 @@
-import type { ColorStop, RGBAColor } from '../config/types';
+import type { ColorStop, HazardClass, RGBAColor } from '../config/types';
 import { COLOR_STOPS } from '../config/constants';
 
 /**
@@ -61,3 +61,37 @@ export function averageColors(colors: RGBAColor[]): RGBAColor {
     Math.round(sum[3] / colors.length),
   ] as RGBAColor;
 }
+
+/**
+ * Get the index of the class a value falls into
+ * Classes are matched by their minimum (highest matching minimum wins);
+ * returns -1 for values without flow (<= 0) or below the first class
+ */
+export function getClassIndex(value: number, classes: HazardClass[]): number {
+  if (!(value > 0)) {
+    return -1;
+  }
+
+  let index = -1;
+  let bestMin = -Infinity;
+
+  classes.forEach((hazardClass, i) => {
+    if (value >= hazardClass.min && hazardClass.min >= bestMin) {
+      index = i;
+      bestMin = hazardClass.min;
+    }
+  });
+
+  return index;
+}
+
+/**
+ * Get the class color for a value, transparent if no class matches
+ */
+export function getColorFromClasses(value: number, classes: HazardClass[]): RGBAColor {
+  const index = getClassIndex(value, classes);
+  if (index === -1) {
+    return [0, 0, 0, 0];
+  }
+  return [...classes[index].color] as RGBAColor;
+}
@@ -0,0 +1,88 @@
+/**
+ * Contour line segment in grid coordinates ([column, row] per end point)
+ */
+export type ContourSegment = [[number, number], [number, number]];
+
+// Edge pairs crossed by the contour for each marching squares case
+// Edges: 0 = top, 1 = right, 2 = bottom, 3 = left
+const CASE_EDGES: number[][][] = [
+  [],
+  [[3, 2]],
+  [[2, 1]],
+  [[3, 1]],
+  [[0, 1]],
+  [[3, 0], [2, 1]],
+  [[0, 2]],
+  [[3, 0]],
+  [[3, 0]],
+  [[0, 2]],
+  [[0, 1], [3, 2]],
+  [[0, 1]],
+  [[3, 1]],
+  [[2, 1]],
+  [[3, 2]],
+  [],
+];
+
+/**
+ * Trace contour segments at a given level using marching squares
+ * Cells with a no-data (NaN) corner are skipped, so lines end at the data edge.
+ * @param values - Grid values (row-major order, NaN for no data)
+ * @param width - Number of columns
+ * @param height - Number of rows
+ * @param level - Contour level
+ */
+export function traceContourSegments(
+  values: ArrayLike<number>,
+  width: number,
+  height: number,
+  level: number
+): ContourSegment[] {
+  const segments: ContourSegment[] = [];
+
+  for (let y = 0; y < height - 1; y++) {
+    for (let x = 0; x < width - 1; x++) {
+      const a = values[y * width + x];             // top-left
+      const b = values[y * width + x + 1];         // top-right
+      const c = values[(y + 1) * width + x + 1];   // bottom-right
+      const d = values[(y + 1) * width + x];       // bottom-left
+      if (isNaN(a) || isNaN(b) || isNaN(c) || isNaN(d)) continue;
+
+      const caseIndex =
+        (a >= level ? 8 : 0) |
+        (b >= level ? 4 : 0) |
+        (c >= level ? 2 : 0) |
+        (d >= level ? 1 : 0);
+
+      const edges = CASE_EDGES[caseIndex];
+      if (edges.length === 0) continue;
+
+      const edgePoint = (edge: number): [number, number] => {
+        switch (edge) {
+          case 0:
+            return [x + interpolate(a, b, level), y];
+          case 1:
+            return [x + 1, y + interpolate(b, c, level)];
+          case 2:
+            return [x + interpolate(d, c, level), y + 1];
+          default:
+            return [x, y + interpolate(a, d, level)];
+        }
+      };
+
+      for (const [from, to] of edges) {
+        segments.push([edgePoint(from), edgePoint(to)]);
+      }
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * Relative position of a level between two values
+ */
+function interpolate(v0: number, v1: number, level: number): number {
+  if (v1 === v0) return 0.5;
+  return Math.min(1, Math.max(0, (level - v0) / (v1 - v0)));
+}
@@ -0,0 +1,16 @@
+import Polygon from '@arcgis/core/geometry/Polygon';
+import { geodesicArea } from '@arcgis/core/geometry/geometryEngine';
+import type { GeoJSONPolygon } from '../config/types';
+
+/**
+ * Calculate area of a GeoJSON polygon using geodesic calculation
+ */
+export function calculatePolygonArea(geoJsonPolygon: GeoJSONPolygon): number {
+  const polygon = new Polygon({
+    rings: geoJsonPolygon.coordinates,
+    spatialReference: { wkid: 4326 }
+  });
+
+  // Returns area in square meters (negative for geodesic, take absolute)
+  return Math.abs(geodesicArea(polygon, 'square-meters'));
+}
@@ -0,0 +1,346 @@
+import type { ExtentData, GridData, HazardClass, HazardClassArea } from '../config/types';
+import { WEB_MERCATOR_WKID } from '../config/constants';
+import { getClassIndex } from './colorUtils';
+import { bilinearInterpolate } from './interpolation';
+
+// WGS84 semi-major axis used by Web Mercator
+const EARTH_RADIUS = 6378137;
+
+/**
+ * Get the factor converting projected distances to ground distances
+ * Web Mercator stretches distances by 1/cos(latitude), so the factor is
+ * evaluated at the center of the extent. Metric projections return 1.
+ */
+export function getGroundScale(extent: ExtentData): number {
+  if (extent.spatialReference.wkid !== WEB_MERCATOR_WKID) {
+    return 1;
+  }
+
+  const centerY = (extent.ymin + extent.ymax) / 2;
+  const latitude = Math.atan(Math.sinh(centerY / EARTH_RADIUS));
+  return Math.cos(latitude);
+}
+
+/**
+ * Get the ground area of a single grid cell in square meters
+ */
+export function getCellArea(extent: ExtentData, width: number, height: number): number {
+  const scale = getGroundScale(extent);
+  const cellWidth = ((extent.xmax - extent.xmin) / width) * scale;
+  const cellHeight = ((extent.ymax - extent.ymin) / height) * scale;
+  return cellWidth * cellHeight;
+}
+
+/**
+ * Compute the per-cell maximum over a series of grids of equal size
+ */
+export function computeCellMaximum(
+  grids: Iterable<ArrayLike<number>>,
+  size: number
+): Float32Array {
+  const maximum = new Float32Array(size);
+
+  for (const grid of grids) {
+    for (let i = 0; i < size; i++) {
+      if (grid[i] > maximum[i]) {
+        maximum[i] = grid[i];
+      }
+    }
+  }
+
+  return maximum;
+}
+
+/**
+ * Sum the area covered by each class of a classified grid
+ */
+export function summarizeClassAreas(
+  values: ArrayLike<number>,
+  classes: HazardClass[],
+  cellArea: number
+): HazardClassArea[] {
+  const counts = new Array<number>(classes.length).fill(0);
+
+  for (let i = 0; i < values.length; i++) {
+    const index = getClassIndex(values[i], classes);
+    if (index !== -1) {
+      counts[index]++;
+    }
+  }
+
+  return classes.map((hazardClass, i) => ({
+    name: hazardClass.name,
+    color: hazardClass.color,
+    min: hazardClass.min,
+    area: counts[i] * cellArea,
+  }));
+}
+
+/**
+ * Compute the first time at which each cell exceeds a flow height threshold
+ * Cells that are never reached are NaN.
+ * @param frames - Flow height grids ordered by time
+ * @param threshold - Minimum flow height counting as reached (m)
+ */
+export function computeArrivalTimes(
+  frames: { time: number; values: ArrayLike<number> }[],
+  size: number,
+  threshold: number
+): Float32Array {
+  const arrival = new Float32Array(size).fill(NaN);
+
+  for (const { time, values } of frames) {
+    for (let i = 0; i < size; i++) {
+      if (isNaN(arrival[i]) && values[i] >= threshold) {
+        arrival[i] = time;
+      }
+    }
+  }
+
+  return arrival;
+}
+
+/**
+ * Compute the fraction of grids in which each cell exceeds a threshold
+ */
+export function computeExceedanceProbability(
+  grids: ArrayLike<number>[],
+  size: number,
+  threshold: number
+): Float32Array {
+  const probability = new Float32Array(size);
+  if (grids.length === 0) return probability;
+
+  for (const grid of grids) {
+    for (let i = 0; i < size; i++) {
+      if (grid[i] > threshold) {
+        probability[i]++;
+      }
+    }
+  }
+
+  for (let i = 0; i < size; i++) {
+    probability[i] /= grids.length;
+  }
+
+  return probability;
+}
+
+/**
+ * Get the bounding extent of a grid's points (in the grid's spatial reference)
+ */
+export function getPointsExtent(gridData: GridData): ExtentData {
+  let xmin = Infinity;
+  let ymin = Infinity;
+  let xmax = -Infinity;
+  let ymax = -Infinity;
+
+  for (const [x, y] of gridData.points) {
+    if (x < xmin) xmin = x;
+    if (x > xmax) xmax = x;
+    if (y < ymin) ymin = y;
+    if (y > ymax) ymax = y;
+  }
+
+  return { xmin, ymin, xmax, ymax, spatialReference: gridData.spatialReference };
+}
+
+/**
+ * Interpolate position and ground elevation at a fractional grid location
+ * @param normX - Normalized column [0, 1]
+ * @param normY - Normalized row [0, 1], 0 = top
+ */
+export function interpolateGridPoint(
+  gridData: GridData,
+  normX: number,
+  normY: number
+): [number, number, number] {
+  const { width, height } = gridData;
+  const fx = Math.min(1, Math.max(0, normX)) * (width - 1);
+  const fy = Math.min(1, Math.max(0, normY)) * (height - 1);
+  const x0 = Math.floor(fx);
+  const y0 = Math.floor(fy);
+  const x1 = Math.min(x0 + 1, width - 1);
+  const y1 = Math.min(y0 + 1, height - 1);
+  const tx = fx - x0;
+  const ty = fy - y0;
+
+  const weights: [number, number][] = [
+    [y0 * width + x0, (1 - tx) * (1 - ty)],
+    [y0 * width + x1, tx * (1 - ty)],
+    [y1 * width + x0, (1 - tx) * ty],
+    [y1 * width + x1, tx * ty],
+  ];
+
+  let x = 0;
+  let y = 0;
+  let z = 0;
+  for (const [i, w] of weights) {
+    x += gridData.points[i][0] * w;
+    y += gridData.points[i][1] * w;
+    z += gridData.elevations[i] * w;
+  }
+
+  return [x, y, z];
+}
+
+/**
+ * Get the size of a grid for a raster of columns × rows cells
+ * Rasters within the cell budget keep their native size, larger ones are
+ * scaled down uniformly so the aspect ratio is preserved.
+ */
+export function getGridSize(columns: number, rows: number, maxCells: number): [number, number] {
+  const factor = Math.max(1, Math.sqrt((columns * rows) / maxCells));
+  return [Math.max(2, Math.round(columns / factor)), Math.max(2, Math.round(rows / factor))];
+}
+
+/**
+ * Get the normalized grid location [0, 1] of a point for a grid of
+ * width × height cells centered in an extent (not clamped)
+ */
+export function toGridCoordinates(
+  extent: ExtentData,
+  width: number,
+  height: number,
+  x: number,
+  y: number
+): [number, number] {
+  const cellWidth = (extent.xmax - extent.xmin) / width;
+  const cellHeight = (extent.ymax - extent.ymin) / height;
+  return [
+    ((x - extent.xmin) / cellWidth - 0.5) / (width - 1),
+    ((extent.ymax - y) / cellHeight - 0.5) / (height - 1),
+  ];
+}
+
+/**
+ * Source cells and overlap weights of each target cell when shrinking
+ * a grid axis of srcSize cells to dstSize cells
+ */
+function getBoxWeights(srcSize: number, dstSize: number): { start: number; weights: number[] }[] {
+  const scale = srcSize / dstSize;
+
+  return Array.from({ length: dstSize }, (_, i) => {
+    const from = i * scale;
+    const to = Math.min(srcSize, (i + 1) * scale);
+    const start = Math.floor(from);
+    const weights: number[] = [];
+    for (let p = start; p < to; p++) {
+      weights.push((Math.min(to, p + 1) - Math.max(from, p)) / scale);
+    }
+    return { start, weights };
+  });
+}
+
+/**
+ * Downsample a grid by area-weighted averaging, each target cell is the
+ * mean of the source cells it covers (weighted by overlap)
+ * No-data (NaN) cells are left out, target cells covering only no data are 0.
+ */
+export function downsampleGrid(
+  values: ArrayLike<number>,
+  srcWidth: number,
+  srcHeight: number,
+  dstWidth: number,
+  dstHeight: number
+): Float32Array {
+  const columns = getBoxWeights(srcWidth, dstWidth);
+  const rows = getBoxWeights(srcHeight, dstHeight);
+
+  // Horizontal pass: weighted sums and weights of the cells with data, srcHeight × dstWidth
+  const partial = new Float32Array(srcHeight * dstWidth);
+  const partialWeight = new Float32Array(srcHeight * dstWidth);
+  for (let y = 0; y < srcHeight; y++) {
+    for (let x = 0; x < dstWidth; x++) {
+      const { start, weights } = columns[x];
+      let sum = 0;
+      let weightSum = 0;
+      for (let k = 0; k < weights.length; k++) {
+        const value = values[y * srcWidth + start + k];
+        if (!isNaN(value)) {
+          sum += value * weights[k];
+          weightSum += weights[k];
+        }
+      }
+      partial[y * dstWidth + x] = sum;
+      partialWeight[y * dstWidth + x] = weightSum;
+    }
+  }
+
+  // Vertical pass: dstHeight × dstWidth
+  const result = new Float32Array(dstWidth * dstHeight);
+  for (let y = 0; y < dstHeight; y++) {
+    const { start, weights } = rows[y];
+    for (let x = 0; x < dstWidth; x++) {
+      let sum = 0;
+      let weightSum = 0;
+      for (let k = 0; k < weights.length; k++) {
+        const i = (start + k) * dstWidth + x;
+        sum += partial[i] * weights[k];
+        weightSum += partialWeight[i] * weights[k];
+      }
+      result[y * dstWidth + x] = weightSum > 0 ? sum / weightSum : 0;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Check if two extents cover the same area, up to a fraction of a cell
+ */
+export function isSameExtent(a: ExtentData, b: ExtentData, tolerance: number): boolean {
+  return (
+    a.spatialReference.wkid === b.spatialReference.wkid &&
+    Math.abs(a.xmin - b.xmin) <= tolerance &&
+    Math.abs(a.xmax - b.xmax) <= tolerance &&
+    Math.abs(a.ymin - b.ymin) <= tolerance &&
+    Math.abs(a.ymax - b.ymax) <= tolerance
+  );
+}
+
+/**
+ * Get the smallest extent containing both extents
+ */
+export function unionExtents(a: ExtentData, b: ExtentData): ExtentData {
+  return {
+    xmin: Math.min(a.xmin, b.xmin),
+    ymin: Math.min(a.ymin, b.ymin),
+    xmax: Math.max(a.xmax, b.xmax),
+    ymax: Math.max(a.ymax, b.ymax),
+    spatialReference: a.spatialReference,
+  };
+}
+
+/**
+ * Resample a grid onto a grid of another extent (bilinear), cells outside
+ * the source extent are 0
+ */
+export function resampleToExtent(
+  values: ArrayLike<number>,
+  width: number,
+  height: number,
+  from: ExtentData,
+  to: ExtentData,
+  toWidth: number,
+  toHeight: number
+): Float32Array {
+  const result = new Float32Array(toWidth * toHeight);
+  const cellWidth = (to.xmax - to.xmin) / toWidth;
+  const cellHeight = (to.ymax - to.ymin) / toHeight;
+
+  for (let row = 0; row < toHeight; row++) {
+    const y = to.ymax - (row + 0.5) * cellHeight;
+    if (y < from.ymin || y > from.ymax) continue;
+
+    for (let col = 0; col < toWidth; col++) {
+      const x = to.xmin + (col + 0.5) * cellWidth;
+      if (x < from.xmin || x > from.xmax) continue;
+
+      const [normX, normY] = toGridCoordinates(from, width, height, x, y);
+      result[row * toWidth + col] = bilinearInterpolate(values, width, height, normX, normY);
+    }
+  }
+
+  return result;
+}
@@ -1,31 +1,35 @@
+import type { GridData } from '../config/types';
+
 /**
  * Bilinear interpolation on a 2D grid
  * @param grid - 1D array representing 2D grid (row-major order)
- * @param srcRes - Source grid resolution (width = height)
- * @param x - Normalized x coordinate [0, 1]
- * @param y - Normalized y coordinate [0, 1]
+ * @param width - Number of columns
+ * @param height - Number of rows
+ * @param x - Normalized x coordinate [0, 1], clamped
+ * @param y - Normalized y coordinate [0, 1], clamped
  */
 export function bilinearInterpolate(
   grid: ArrayLike<number>,
-  srcRes: number,
+  width: number,
+  height: number,
   x: number,
   y: number
 ): number {
-  const fx = x * (srcRes - 1);
-  const fy = y * (srcRes - 1);
+  const fx = Math.min(1, Math.max(0, x)) * (width - 1);
+  const fy = Math.min(1, Math.max(0, y)) * (height - 1);
 
   const x0 = Math.floor(fx);
   const y0 = Math.floor(fy);
-  const x1 = Math.min(x0 + 1, srcRes - 1);
-  const y1 = Math.min(y0 + 1, srcRes - 1);
+  const x1 = Math.min(x0 + 1, width - 1);
+  const y1 = Math.min(y0 + 1, height - 1);
 
   const tx = fx - x0;
   const ty = fy - y0;
 
-  const v00 = grid[y0 * srcRes + x0];
-  const v10 = grid[y0 * srcRes + x1];
-  const v01 = grid[y1 * srcRes + x0];
-  const v11 = grid[y1 * srcRes + x1];
+  const v00 = grid[y0 * width + x0];
+  const v10 = grid[y0 * width + x1];
+  const v01 = grid[y1 * width + x0];
+  const v11 = grid[y1 * width + x1];
 
   // Bilinear interpolation
   const v0 = v00 * (1 - tx) + v10 * tx;
@@ -38,22 +42,24 @@ export function bilinearInterpolate(
  * Apply Gaussian-like smoothing to flatten peaks
  * Uses 3x3 kernel with Gaussian weights
  * @param grid - Input grid data
- * @param res - Grid resolution
+ * @param width - Number of columns
+ * @param height - Number of rows
  * @param passes - Number of smoothing passes
  */
 export function applyGaussianSmooth(
   grid: number[],
-  res: number,
+  width: number,
+  height: number,
   passes: number
 ): number[] {
   let current = grid;
 
   for (let p = 0; p < passes; p++) {
-    const smoothed = new Array<number>(res * res);
+    const smoothed = new Array<number>(width * height);
 
-    for (let y = 0; y < res; y++) {
-      for (let x = 0; x < res; x++) {
-        const idx = y * res + x;
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const idx = y * width + x;
         const centerVal = current[idx];
 
         // Skip zero values to preserve boundaries
@@ -71,8 +77,8 @@ export function applyGaussianSmooth(
             const nx = x + dx;
             const ny = y + dy;
 
-            if (nx >= 0 && nx < res && ny >= 0 && ny < res) {
-              const nIdx = ny * res + nx;
+            if (nx >= 0 && nx < width && ny >= 0 && ny < height) {
+              const nIdx = ny * width + nx;
               const nVal = current[nIdx];
 
               // Gaussian weight: center=4, edges=2, corners=1
@@ -97,76 +103,161 @@ export function applyGaussianSmooth(
   return current;
 }
 
+/**
+ * Fill NaN cells of a grid from their valid neighbours
+ * Each pass sets the gaps next to valid cells to the mean of their valid
+ * 4-neighbours, so gaps are filled from their edges inwards.
+ * @returns False if the grid has no valid cell to fill from
+ */
+export function fillGridGaps(grid: Float64Array, width: number, height: number): boolean {
+  let gaps: number[] = [];
+  grid.forEach((value, i) => {
+    if (isNaN(value)) gaps.push(i);
+  });
+  if (gaps.length === grid.length) return false;
+
+  while (gaps.length > 0) {
+    const filled: [number, number][] = [];
+    const remaining: number[] = [];
+
+    for (const i of gaps) {
+      const x = i % width;
+      const y = Math.floor(i / width);
+      let sum = 0;
+      let count = 0;
+      const neighbours = [
+        x > 0 ? i - 1 : -1,
+        x < width - 1 ? i + 1 : -1,
+        y > 0 ? i - width : -1,
+        y < height - 1 ? i + width : -1,
+      ];
+      for (const n of neighbours) {
+        if (n >= 0 && !isNaN(grid[n])) {
+          sum += grid[n];
+          count++;
+        }
+      }
+      if (count > 0) {
+        filled.push([i, sum / count]);
+      } else {
+        remaining.push(i);
+      }
+    }
+
+    // Applied after the pass so fills don't spread within it
+    filled.forEach(([i, value]) => {
+      grid[i] = value;
+    });
+    gaps = remaining;
+  }
+
+  return true;
+}
+
+/**
+ * Fill NaN values along a line of samples by linear interpolation between
+ * the nearest valid samples, gaps at the ends take the nearest valid value
+ * @returns False if the line has no valid sample
+ */
+export function fillLineGaps(values: Float64Array): boolean {
+  if (values.every(isNaN)) return false;
+  let previous = -1;
+
+  for (let i = 0; i <= values.length; i++) {
+    if (i < values.length && isNaN(values[i])) continue;
+
+    // Gap between the previous valid sample and this one
+    for (let j = previous + 1; j < i; j++) {
+      if (previous < 0) {
+        values[j] = values[i];
+      } else if (i === values.length) {
+        values[j] = values[previous];
+      } else {
+        const t = (j - previous) / (i - previous);
+        values[j] = values[previous] * (1 - t) + values[i] * t;
+      }
+    }
+    previous = i;
+  }
+
+  return true;
+}
+
+/**
+ * Get the size of a grid refined by a smoothing factor (same corner nodes)
+ */
+export function getSmoothedSize(width: number, height: number, factor: number): [number, number] {
+  return [(width - 1) * factor + 1, (height - 1) * factor + 1];
+}
+
 /**
  * Upsample a grid using bilinear interpolation
  * @param srcGrid - Source grid data
- * @param srcRes - Source resolution
- * @param dstRes - Destination resolution
+ * @param srcWidth - Source columns
+ * @param srcHeight - Source rows
+ * @param dstWidth - Destination columns
+ * @param dstHeight - Destination rows
  * @param flattenPasses - Number of smoothing passes to apply
  */
 export function upsampleGrid(
   srcGrid: number[] | Float32Array,
-  srcRes: number,
-  dstRes: number,
+  srcWidth: number,
+  srcHeight: number,
+  dstWidth: number,
+  dstHeight: number,
   flattenPasses: number
 ): number[] {
-  const dstGrid = new Array<number>(dstRes * dstRes);
+  const dstGrid = new Array<number>(dstWidth * dstHeight);
 
-  for (let y = 0; y < dstRes; y++) {
-    for (let x = 0; x < dstRes; x++) {
-      const normX = x / (dstRes - 1);
-      const normY = y / (dstRes - 1);
-      dstGrid[y * dstRes + x] = bilinearInterpolate(srcGrid, srcRes, normX, normY);
+  for (let y = 0; y < dstHeight; y++) {
+    for (let x = 0; x < dstWidth; x++) {
+      const normX = x / (dstWidth - 1);
+      const normY = y / (dstHeight - 1);
+      dstGrid[y * dstWidth + x] = bilinearInterpolate(srcGrid, srcWidth, srcHeight, normX, normY);
     }
   }
 
   // Apply smoothing passes to reduce sharp peaks
-  return applyGaussianSmooth(dstGrid, dstRes, flattenPasses);
+  return applyGaussianSmooth(dstGrid, dstWidth, dstHeight, flattenPasses);
 }
 
 /**
  * Generate smoothed grid points and elevations
+ * Positions are interpolated bilinearly, so grids reprojected from another
+ * spatial reference (not axis-aligned) are refined correctly.
  */
-export function generateSmoothedGrid(
-  basePoints: [number, number][],
-  baseElevations: Float64Array | number[],
-  baseRes: number,
-  factor: number
-): {
-  points: [number, number][];
-  elevations: Float64Array;
-  resolution: number;
-} {
-  const smoothRes = (baseRes - 1) * factor + 1;
+export function generateSmoothedGrid(gridData: GridData, factor: number): GridData {
+  const { width, height } = gridData;
+  const [smoothWidth, smoothHeight] = getSmoothedSize(width, height, factor);
 
-  const smoothPoints: [number, number][] = [];
-  const smoothElevations = new Float64Array(smoothRes * smoothRes);
+  const xs = gridData.points.map(([x]) => x);
+  const ys = gridData.points.map(([, y]) => y);
 
-  // Get extent from base points
-  const xMin = basePoints[0][0];
-  const xMax = basePoints[baseRes - 1][0];
-  const yMax = basePoints[0][1];
-  const yMin = basePoints[(baseRes - 1) * baseRes][1];
+  const smoothPoints: [number, number][] = [];
+  const smoothElevations = new Float64Array(smoothWidth * smoothHeight);
 
-  for (let y = 0; y < smoothRes; y++) {
-    for (let x = 0; x < smoothRes; x++) {
-      const normX = x / (smoothRes - 1);
-      const normY = y / (smoothRes - 1);
+  for (let y = 0; y < smoothHeight; y++) {
+    for (let x = 0; x < smoothWidth; x++) {
+      const normX = x / (smoothWidth - 1);
+      const normY = y / (smoothHeight - 1);
 
       // Interpolate position
-      const px = xMin + normX * (xMax - xMin);
-      const py = yMax - normY * (yMax - yMin);
-      smoothPoints.push([px, py]);
+      smoothPoints.push([
+        bilinearInterpolate(xs, width, height, normX, normY),
+        bilinearInterpolate(ys, width, height, normX, normY),
+      ]);
 
       // Interpolate elevation
-      const elev = bilinearInterpolate(baseElevations, baseRes, normX, normY);
-      smoothElevations[y * smoothRes + x] = elev;
+      const elev = bilinearInterpolate(gridData.elevations, width, height, normX, normY);
+      smoothElevations[y * smoothWidth + x] = elev;
     }
   }
 
   return {
     points: smoothPoints,
     elevations: smoothElevations,
-    resolution: smoothRes,
+    width: smoothWidth,
+    height: smoothHeight,
+    spatialReference: gridData.spatialReference,
   };
 }
@@ -0,0 +1,68 @@
+import type { ColorStop, RGBAColor, TerrainClass } from '../config/types';
+
+/**
+ * Convert an RGBA color (alpha 0-255) to a CSS color string
+ */
+export function toCssColor(color: RGBAColor): string {
+  return `rgba(${color[0]}, ${color[1]}, ${color[2]}, ${(color[3] / 255).toFixed(2)})`;
+}
+
+/**
+ * Render a continuous color ramp legend with one label per stop
+ */
+export function renderColorRampLegend(
+  container: HTMLElement,
+  stops: ColorStop[],
+  unit: string
+): void {
+  container.innerHTML = '';
+
+  const gradientStops = stops.map((stop, i) => {
+    const percent = stops.length > 1 ? (i / (stops.length - 1)) * 100 : 0;
+    return `${toCssColor(stop.color)} ${percent.toFixed(0)}%`;
+  });
+
+  const ramp = document.createElement('div');
+  ramp.className = 'legend-ramp';
+  ramp.style.background = `linear-gradient(to right, ${gradientStops.join(', ')})`;
+
+  const labels = document.createElement('div');
+  labels.className = 'legend-labels';
+  stops.forEach((stop) => {
+    const label = document.createElement('span');
+    label.textContent = `${stop.value}`;
+    labels.appendChild(label);
+  });
+
+  const unitEl = document.createElement('div');
+  unitEl.className = 'legend-unit';
+  unitEl.textContent = unit;
+
+  container.append(ramp, labels, unitEl);
+}
+
+/**
+ * Render a class legend with a swatch, name and value range per class
+ */
+export function renderClassLegend(
+  container: HTMLElement,
+  classes: TerrainClass[],
+  unit: string
+): void {
+  container.innerHTML = '';
+
+  classes.forEach((entry) => {
+    const swatch = document.createElement('span');
+    swatch.className = 'class-swatch';
+    swatch.style.background = toCssColor(entry.color);
+
+    const name = document.createElement('span');
+    name.textContent = entry.name;
+
+    const range = document.createElement('span');
+    range.className = 'class-range';
+    range.textContent = `${entry.min}–${entry.max} ${unit}`;
+
+    container.append(swatch, name, range);
+  });
+}
@@ -0,0 +1,123 @@
+import type { GridData, GroundGrid, MeshColoring, MeshGeometry } from '../config/types';
+import { getClassIndex, getColorFromHeight } from './colorUtils';
+import { upsampleGrid } from './interpolation';
+
+/**
+ * Flatten the points and elevations of a grid into ground vertices
+ */
+export function toGroundGrid(gridData: GridData): GroundGrid {
+  const positions = new Float64Array(gridData.points.length * 3);
+
+  gridData.points.forEach(([x, y], i) => {
+    positions[i * 3] = x;
+    positions[i * 3 + 1] = y;
+    positions[i * 3 + 2] = gridData.elevations[i];
+  });
+
+  return { positions, width: gridData.width, height: gridData.height };
+}
+
+/**
+ * Build the vertex buffers of a flow mesh
+ * Flow heights (and coloring values) of a width × height grid are upsampled
+ * to the ground grid if it is larger (smoothing). The mesh is extruded by
+ * flow height and colored either by flow height or by the coloring values.
+ * With hazard classes, vertices outside all classes are left out of the
+ * triangle colors and triangles without a classified vertex are dropped.
+ * Returns null if no cell has flow.
+ */
+export function buildMeshGeometry(
+  flowHeights: Float32Array,
+  width: number,
+  height: number,
+  ground: GroundGrid,
+  exaggerationFactor: number,
+  flattenPasses: number,
+  coloring?: MeshColoring
+): MeshGeometry | null {
+  const { width: meshWidth, height: meshHeight } = ground;
+  const upsample = meshWidth !== width || meshHeight !== height;
+
+  const heights = upsample
+    ? upsampleGrid(flowHeights, width, height, meshWidth, meshHeight, flattenPasses)
+    : flowHeights;
+  const colorValues = coloring && upsample
+    ? upsampleGrid(coloring.values, width, height, meshWidth, meshHeight, 0)
+    : coloring?.values ?? null;
+
+  // Vertex positions and colors of the grid, colored marks vertices with a color
+  const vertexCount = meshWidth * meshHeight;
+  const positions = new Float64Array(vertexCount * 3);
+  const colors = new Float32Array(vertexCount * 4);
+  const colored = new Uint8Array(vertexCount);
+
+  for (let i = 0; i < vertexCount; i++) {
+    positions[i * 3] = ground.positions[i * 3];
+    positions[i * 3 + 1] = ground.positions[i * 3 + 1];
+    positions[i * 3 + 2] = ground.positions[i * 3 + 2] + heights[i] * exaggerationFactor + 1;
+
+    let color;
+    if (colorValues && coloring?.classes) {
+      const index = getClassIndex(colorValues[i], coloring.classes);
+      if (index === -1) continue;
+      color = coloring.classes[index].color;
+    } else if (colorValues && coloring?.stops) {
+      color = getColorFromHeight(colorValues[i], coloring.stops);
+    } else {
+      color = getColorFromHeight(heights[i]);
+    }
+    colors.set(color, i * 4);
+    colored[i] = 1;
+  }
+
+  // Triangles where at least one vertex has flow > 0, each with its own
+  // vertices colored by the average color of its colored vertices (flat shading)
+  const maxTriangles = 2 * (meshWidth - 1) * (meshHeight - 1);
+  const flatPositions = new Float64Array(maxTriangles * 9);
+  const flatColors = new Uint8Array(maxTriangles * 12);
+  let triangleCount = 0;
+
+  const addTriangle = (a: number, b: number, c: number) => {
+    if (!(heights[a] > 0 || heights[b] > 0 || heights[c] > 0)) return;
+    const coloredCount = colored[a] + colored[b] + colored[c];
+    if (coloredCount === 0) return;
+
+    const base = triangleCount * 3;
+    [a, b, c].forEach((vertex, k) => {
+      flatPositions.set(positions.subarray(vertex * 3, vertex * 3 + 3), (base + k) * 3);
+    });
+    for (let channel = 0; channel < 4; channel++) {
+      // Uncolored vertices hold zeros and add nothing to the sum
+      const average = Math.round(
+        (colors[a * 4 + channel] + colors[b * 4 + channel] + colors[c * 4 + channel]) / coloredCount
+      );
+      for (let k = 0; k < 3; k++) {
+        flatColors[(base + k) * 4 + channel] = average;
+      }
+    }
+    triangleCount++;
+  };
+
+  for (let y = 0; y < meshHeight - 1; y++) {
+    for (let x = 0; x < meshWidth - 1; x++) {
+      const i = y * meshWidth + x;
+      addTriangle(i, i + 1, i + meshWidth);
+      addTriangle(i + 1, i + meshWidth + 1, i + meshWidth);
+    }
+  }
+
+  if (triangleCount === 0) {
+    return null;
+  }
+
+  const faces = new Uint32Array(triangleCount * 3);
+  for (let i = 0; i < faces.length; i++) {
+    faces[i] = i;
+  }
+
+  return {
+    positions: flatPositions.slice(0, triangleCount * 9),
+    colors: flatColors.slice(0, triangleCount * 12),
+    faces,
+  };
+}
@@ -0,0 +1,58 @@
+/**
+ * Sample point along a profile path
+ */
+export interface ProfileSample {
+  x: number;
+  y: number;
+  distance: number;
+}
+
+/**
+ * Sample evenly spaced points along a path
+ * @param path - Path vertices [x, y, ...] in map units
+ * @param sampleCount - Number of samples including both ends
+ * @param groundScale - Factor converting map units to ground meters
+ */
+export function samplePath(
+  path: number[][],
+  sampleCount: number,
+  groundScale: number = 1
+): ProfileSample[] {
+  if (path.length === 0) return [];
+
+  // Cumulative length at each vertex
+  const cumulative: number[] = [0];
+  for (let i = 1; i < path.length; i++) {
+    const dx = path[i][0] - path[i - 1][0];
+    const dy = path[i][1] - path[i - 1][1];
+    cumulative.push(cumulative[i - 1] + Math.hypot(dx, dy));
+  }
+  const totalLength = cumulative[cumulative.length - 1];
+
+  if (totalLength === 0 || sampleCount < 2) {
+    return [{ x: path[0][0], y: path[0][1], distance: 0 }];
+  }
+
+  const samples: ProfileSample[] = [];
+  let segment = 1;
+
+  for (let i = 0; i < sampleCount; i++) {
+    const target = (i / (sampleCount - 1)) * totalLength;
+    while (segment < path.length - 1 && cumulative[segment] < target) {
+      segment++;
+    }
+
+    const segmentLength = cumulative[segment] - cumulative[segment - 1];
+    const t = segmentLength > 0 ? (target - cumulative[segment - 1]) / segmentLength : 0;
+    const [x0, y0] = path[segment - 1];
+    const [x1, y1] = path[segment];
+
+    samples.push({
+      x: x0 + t * (x1 - x0),
+      y: y0 + t * (y1 - y0),
+      distance: target * groundScale,
+    });
+  }
+
+  return samples;
+}
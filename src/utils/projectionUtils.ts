@@ -0,0 +1,39 @@
+import Multipoint from '@arcgis/core/geometry/Multipoint';
+import SpatialReference from '@arcgis/core/geometry/SpatialReference';
+import * as projectOperator from '@arcgis/core/geometry/operators/projectOperator';
+
+/**
+ * Load the client-side projection engine (needed before projectPoints)
+ */
+export async function loadProjection(): Promise<void> {
+  if (!projectOperator.isLoaded()) {
+    await projectOperator.load();
+  }
+}
+
+/**
+ * Project a list of points between spatial references
+ * Points are returned unchanged if both references are the same.
+ */
+export function projectPoints(
+  points: [number, number][],
+  fromWkid: number,
+  toWkid: number
+): [number, number][] {
+  if (fromWkid === toWkid || points.length === 0) return points;
+
+  if (!projectOperator.isLoaded()) {
+    throw new Error('Projection engine not loaded, call loadProjection() first');
+  }
+
+  const projected = projectOperator.execute(
+    new Multipoint({ points, spatialReference: { wkid: fromWkid } }),
+    new SpatialReference({ wkid: toWkid })
+  ) as Multipoint | null | undefined;
+
+  if (!projected) {
+    throw new Error(`Could not project points from EPSG:${fromWkid} to EPSG:${toWkid}`);
+  }
+
+  return projected.points.map(([x, y]) => [x, y]);
+}
@@ -0,0 +1,144 @@
+import type { DecodedRaster } from '../config/types';
+import { DEFAULT_NODATA_VALUE } from '../config/constants';
+
+/**
+ * Parse an ESRI ASCII grid (.asc)
+ * Supports xllcorner/xllcenter origins, cellsize or dx/dy and NODATA_value;
+ * no-data cells become NaN.
+ * @param wkid - Spatial reference of the coordinates (ASCII grids carry none)
+ */
+export function parseAsciiGrid(text: string, wkid: number): DecodedRaster {
+  const tokens = text.trim().split(/\s+/);
+  const header: Record<string, number> = {};
+
+  // Header lines are key/value pairs until the first numeric token
+  let index = 0;
+  while (index < tokens.length - 1 && isNaN(Number(tokens[index]))) {
+    header[tokens[index].toLowerCase()] = Number(tokens[index + 1]);
+    index += 2;
+  }
+
+  const width = header.ncols;
+  const height = header.nrows;
+  const cellWidth = header.cellsize ?? header.dx;
+  const cellHeight = header.cellsize ?? header.dy;
+  if (!(width > 0) || !(height > 0) || !(cellWidth > 0) || !(cellHeight > 0)) {
+    throw new Error('Invalid ASCII grid header: ncols, nrows and cellsize are required');
+  }
+
+  const xmin = header.xllcorner ?? header.xllcenter - cellWidth / 2;
+  const ymin = header.yllcorner ?? header.yllcenter - cellHeight / 2;
+  if (isNaN(xmin) || isNaN(ymin)) {
+    throw new Error('Invalid ASCII grid header: missing xllcorner/yllcorner');
+  }
+
+  const count = width * height;
+  if (tokens.length - index < count) {
+    throw new Error(`ASCII grid has ${tokens.length - index} values, expected ${count}`);
+  }
+
+  const noData = header.nodata_value ?? DEFAULT_NODATA_VALUE;
+  const values = new Float32Array(count);
+  for (let i = 0; i < count; i++) {
+    const value = Number(tokens[index + i]);
+    values[i] = value === noData ? NaN : value;
+  }
+
+  return {
+    values,
+    width,
+    height,
+    extent: {
+      xmin,
+      ymin,
+      xmax: xmin + width * cellWidth,
+      ymax: ymin + height * cellHeight,
+      spatialReference: { wkid },
+    },
+    cellWidth,
+    cellHeight,
+  };
+}
+
+/**
+ * Parse an XYZ export ("x y value" per line, cell centers of a regular grid)
+ * Lines that are not three numbers (e.g. a header) are skipped. Missing
+ * cells and the no-data value become NaN.
+ * @param wkid - Spatial reference of the coordinates (XYZ files carry none)
+ */
+export function parseXyz(
+  text: string,
+  wkid: number,
+  noData: number = DEFAULT_NODATA_VALUE
+): DecodedRaster {
+  const samples: [number, number, number][] = [];
+  for (const line of text.split(/\r?\n/)) {
+    const fields = line.trim().split(/[\s,;]+/).map(Number);
+    if (fields.length >= 3 && fields.slice(0, 3).every((v) => !isNaN(v))) {
+      samples.push([fields[0], fields[1], fields[2]]);
+    }
+  }
+  if (samples.length < 2) {
+    throw new Error('XYZ file has too few points to form a grid');
+  }
+
+  const cellWidth = getGridSpacing(samples.map(([x]) => x));
+  const cellHeight = getGridSpacing(samples.map(([, y]) => y));
+  if (!(cellWidth > 0) || !(cellHeight > 0)) {
+    throw new Error('XYZ points do not form a regular grid');
+  }
+
+  let minX = Infinity;
+  let maxX = -Infinity;
+  let minY = Infinity;
+  let maxY = -Infinity;
+  for (const [x, y] of samples) {
+    minX = Math.min(minX, x);
+    maxX = Math.max(maxX, x);
+    minY = Math.min(minY, y);
+    maxY = Math.max(maxY, y);
+  }
+
+  const width = Math.round((maxX - minX) / cellWidth) + 1;
+  const height = Math.round((maxY - minY) / cellHeight) + 1;
+  const values = new Float32Array(width * height).fill(NaN);
+  for (const [x, y, value] of samples) {
+    const col = Math.round((x - minX) / cellWidth);
+    const row = Math.round((maxY - y) / cellHeight);
+    values[row * width + col] = value === noData ? NaN : value;
+  }
+
+  return {
+    values,
+    width,
+    height,
+    extent: {
+      xmin: minX - cellWidth / 2,
+      ymin: minY - cellHeight / 2,
+      xmax: maxX + cellWidth / 2,
+      ymax: maxY + cellHeight / 2,
+      spatialReference: { wkid },
+    },
+    cellWidth,
+    cellHeight,
+  };
+}
+
+/**
+ * Get the spacing of a regular grid axis from its coordinates
+ * (smallest gap between distinct values, ignoring rounding noise)
+ */
+function getGridSpacing(coordinates: number[]): number {
+  const sorted = Array.from(new Set(coordinates)).sort((a, b) => a - b);
+  const span = sorted[sorted.length - 1] - sorted[0];
+
+  let spacing = Infinity;
+  for (let i = 1; i < sorted.length; i++) {
+    const gap = sorted[i] - sorted[i - 1];
+    if (gap > span * 1e-6 && gap < spacing) {
+      spacing = gap;
+    }
+  }
+
+  return isFinite(spacing) ? spacing : span;
+}
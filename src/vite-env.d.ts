@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_CALCITE_ASSET_PATH?: string;  // Calcite assets (icons, i18n), defaults to the CDN
+  readonly VITE_ARCGIS_ASSET_PATH?: string;   // ArcGIS assets, defaults to the CDN
+}
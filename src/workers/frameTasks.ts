@@ -0,0 +1,100 @@
+import type {
+  GroundGrid,
+  MeshColoring,
+  MeshGeometry,
+  RasterFormat,
+  ResultFrameData,
+} from '../config/types';
+import { loadResampledTiff } from '../core/RasterDecoder';
+import { buildMeshGeometry } from '../utils/meshGeometry';
+
+/**
+ * Task run by the frame worker pool
+ * - decode: fetch and decode a frame file onto a grid of at most maxCells cells
+ * - mesh: build the vertex buffers of a flow mesh (see buildMeshGeometry)
+ *   on a ground grid sent to the worker beforehand
+ */
+export type FrameTask =
+  | {
+    type: 'decode';
+    url: string;
+    maxCells: number;
+    fallbackWkid: number;
+    format: RasterFormat;
+  }
+  | {
+    type: 'mesh';
+    flowHeights: Float32Array;
+    width: number;
+    height: number;
+    groundId: number;
+    exaggerationFactor: number;
+    flattenPasses: number;
+    coloring?: MeshColoring;
+  };
+
+/**
+ * Result of a frame task
+ */
+export type FrameTaskResult = ResultFrameData | MeshGeometry | null;
+
+/**
+ * Message from the pool to a worker: a task, the cancellation of one, or a
+ * ground grid of mesh tasks to keep (until released)
+ */
+export type FrameWorkerRequest =
+  | { id: number; task: FrameTask }
+  | { id: number; cancel: true }
+  | { type: 'setGround'; groundId: number; ground: GroundGrid }
+  | { type: 'releaseGround'; groundId: number };
+
+/**
+ * Message from a worker to the pool
+ */
+export interface FrameWorkerResponse {
+  id: number;
+  result?: FrameTaskResult;
+  error?: { name: string; message: string };
+}
+
+/**
+ * Run a frame task, returning its result and the buffers to transfer back
+ * @param grounds - Ground grids of mesh tasks by id
+ */
+export async function runFrameTask(
+  task: FrameTask,
+  grounds: Map<number, GroundGrid>,
+  signal?: AbortSignal
+): Promise<{ result: FrameTaskResult; transfer: Transferable[] }> {
+  if (task.type === 'decode') {
+    const frame = await loadResampledTiff(
+      task.url,
+      task.maxCells,
+      task.fallbackWkid,
+      task.format,
+      signal
+    );
+    return { result: frame, transfer: [frame.values.buffer] };
+  }
+
+  const ground = grounds.get(task.groundId);
+  if (!ground) {
+    throw new Error(`Ground grid ${task.groundId} not available`);
+  }
+
+  const geometry = buildMeshGeometry(
+    task.flowHeights,
+    task.width,
+    task.height,
+    ground,
+    task.exaggerationFactor,
+    task.flattenPasses,
+    task.coloring
+  );
+  return {
+    result: geometry,
+    transfer: geometry
+      ? [geometry.positions.buffer, geometry.colors.buffer, geometry.faces.buffer]
+      : [],
+  };
+}
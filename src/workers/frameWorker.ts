@@ -0,0 +1,44 @@
+import type { GroundGrid } from '../config/types';
+import { runFrameTask, type FrameWorkerRequest, type FrameWorkerResponse } from './frameTasks';
+
+// Running tasks by id, aborted when the pool cancels them
+const controllers = new Map<number, AbortController>();
+
+// Ground grids of mesh tasks by id, sent once by the pool
+const grounds = new Map<number, GroundGrid>();
+
+/**
+ * Send a response to the pool, transferring the result buffers
+ */
+function respond(response: FrameWorkerResponse, transfer: Transferable[] = []): void {
+  self.postMessage(response, { transfer });
+}
+
+self.addEventListener('message', async (event: MessageEvent<FrameWorkerRequest>) => {
+  const request = event.data;
+  if ('type' in request) {
+    if (request.type === 'setGround') {
+      grounds.set(request.groundId, request.ground);
+    } else {
+      grounds.delete(request.groundId);
+    }
+    return;
+  }
+  if ('cancel' in request) {
+    controllers.get(request.id)?.abort();
+    return;
+  }
+
+  const controller = new AbortController();
+  controllers.set(request.id, controller);
+
+  try {
+    const { result, transfer } = await runFrameTask(request.task, grounds, controller.signal);
+    respond({ id: request.id, result }, transfer);
+  } catch (error) {
+    const { name, message } = error as Error;
+    respond({ id: request.id, error: { name, message } });
+  } finally {
+    controllers.delete(request.id);
+  }
+});
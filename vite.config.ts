@@ -11,6 +11,10 @@ export default defineConfig({
     outDir: 'dist',
     sourcemap: true
   },
+  worker: {
+    // geotiff loads its decoders lazily, which needs code splitting
+    format: 'es'
+  },
   server: {
     port: 3000,
     open: true